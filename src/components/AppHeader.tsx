@@ -0,0 +1,77 @@
+import { Link } from "react-router-dom";
+import { FileText, FolderOpen, LogOut, Plus, ScrollText, Users } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useAuth } from "@/hooks/use-auth";
+import { can } from "@/lib/permissions";
+
+export const AppHeader = () => {
+  const { user, organizations, organization, selectOrganization, signOut } = useAuth();
+
+  return (
+    <header className="border-b border-border bg-card">
+      <div className="container mx-auto px-4 py-6">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <Link to="/" className="flex items-center gap-3">
+            <div className="rounded-lg bg-primary/10 p-2">
+              <FileText className="h-6 w-6 text-primary" />
+            </div>
+            <div>
+              <h1 className="text-2xl font-bold text-foreground">DocuScan AI</h1>
+              <p className="text-sm text-muted-foreground">
+                Automated document data extraction
+              </p>
+            </div>
+          </Link>
+          <nav className="flex flex-wrap items-center gap-2">
+            {organizations.length > 1 ? (
+              <Select value={organization?.id} onValueChange={selectOrganization}>
+                <SelectTrigger className="h-9 w-48" aria-label="Agency">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {organizations.map((o) => (
+                    <SelectItem key={o.id} value={o.id}>{o.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ) : (
+              organization && <span className="text-sm font-medium text-foreground">{organization.name}</span>
+            )}
+            <Button variant="ghost" asChild className="gap-2">
+              <Link to="/organization">
+                <Users className="h-4 w-4" />
+                Team
+              </Link>
+            </Button>
+            {can(organization?.role, "manage") && (
+              <Button variant="ghost" asChild className="gap-2">
+                <Link to="/audit">
+                  <ScrollText className="h-4 w-4" />
+                  Audit log
+                </Link>
+              </Button>
+            )}
+            <Button variant="ghost" asChild className="gap-2">
+              <Link to="/batches">
+                <FolderOpen className="h-4 w-4" />
+                Batches
+              </Link>
+            </Button>
+            {can(organization?.role, "process") && (
+              <Button variant="outline" asChild className="gap-2">
+                <Link to="/">
+                  <Plus className="h-4 w-4" />
+                  New batch
+                </Link>
+              </Button>
+            )}
+            <Button variant="ghost" size="icon" onClick={signOut} title={user ? `Sign out ${user.email}` : "Sign out"}>
+              <LogOut className="h-4 w-4" />
+            </Button>
+          </nav>
+        </div>
+      </div>
+    </header>
+  );
+};
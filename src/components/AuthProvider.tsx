@@ -0,0 +1,94 @@
+import { ReactNode, useCallback, useEffect, useState } from "react";
+import type { Session } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import { AuthContext, Organization } from "@/hooks/use-auth";
+import { clearCachedPages } from "@/lib/extractionCache";
+import { isRole, Role } from "@/lib/permissions";
+
+// Remembers the chosen workspace per browser
+const ORGANIZATION_KEY = "docuscan.organization";
+
+export const AuthProvider = ({ children }: { children: ReactNode }) => {
+  const [session, setSession] = useState<Session | null>(null);
+  const [sessionLoaded, setSessionLoaded] = useState(false);
+  const [organizations, setOrganizations] = useState<Organization[]>([]);
+  const [organizationsLoaded, setOrganizationsLoaded] = useState(false);
+  const [organizationId, setOrganizationId] = useState<string | null>(() => localStorage.getItem(ORGANIZATION_KEY));
+  const userId = session?.user.id ?? null;
+
+  // A session that expires or is revoked clears cached extractions just like signing out
+  useEffect(() => {
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event, nextSession) => {
+      if (event === "SIGNED_OUT") clearCachedPages();
+      setSession(nextSession);
+      setSessionLoaded(true);
+    });
+    supabase.auth.getSession().then(({ data }) => {
+      if (!data.session) clearCachedPages();
+      setSession(data.session);
+      setSessionLoaded(true);
+    });
+    return () => subscription.unsubscribe();
+  }, []);
+
+  // Read through the user's own memberships so each organization comes with their role
+  const refreshOrganizations = useCallback(async () => {
+    if (!userId) {
+      setOrganizations([]);
+      setOrganizationsLoaded(true);
+      return;
+    }
+    const { data, error } = await supabase
+      .from("organization_members")
+      .select("role, organizations(id, name, retention_days, allow_provenance_export)")
+      .eq("user_id", userId);
+    if (error) console.error("Loading organizations failed:", error.message);
+    const loaded = (data ?? [])
+      .filter((membership) => membership.organizations && isRole(membership.role))
+      .map(({ role, organizations: org }) => ({
+        id: org.id,
+        name: org.name,
+        role: role as Role,
+        retentionDays: org.retention_days,
+        allowProvenanceExport: org.allow_provenance_export,
+      }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+    setOrganizations(loaded);
+    setOrganizationsLoaded(true);
+  }, [userId]);
+
+  useEffect(() => {
+    setOrganizationsLoaded(false);
+    refreshOrganizations();
+  }, [refreshOrganizations]);
+
+  const selectOrganization = useCallback((id: string) => {
+    localStorage.setItem(ORGANIZATION_KEY, id);
+    setOrganizationId(id);
+  }, []);
+
+  // Cached extractions hold passport data, so they do not outlive the session on a shared machine
+  const signOut = useCallback(async () => {
+    await clearCachedPages();
+    await supabase.auth.signOut();
+  }, []);
+
+  const organization = organizations.find((o) => o.id === organizationId) ?? organizations[0] ?? null;
+
+  return (
+    <AuthContext.Provider
+      value={{
+        session,
+        user: session?.user ?? null,
+        loading: !sessionLoaded || (userId !== null && !organizationsLoaded),
+        organizations,
+        organization,
+        selectOrganization,
+        refreshOrganizations,
+        signOut,
+      }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+};
@@ -0,0 +1,55 @@
+import { AlertTriangle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { ConflictCandidate, FieldConflict } from "./ExtractedDataTable";
+
+interface ConflictResolverProps {
+  conflict: FieldConflict;
+  fieldLabel: string;
+  formatValue: (value: string) => string;
+  onResolve?: (candidate: ConflictCandidate) => void;
+}
+
+export const ConflictResolver = ({ conflict, fieldLabel, formatValue, onResolve }: ConflictResolverProps) => {
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          className="text-destructive"
+          title={`Documents disagree on ${fieldLabel}`}
+          onClick={(e) => e.stopPropagation()}
+          onDoubleClick={(e) => e.stopPropagation()}
+        >
+          <AlertTriangle className="h-4 w-4" />
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-80 space-y-3" onClick={(e) => e.stopPropagation()}>
+        <div>
+          <p className="text-sm font-semibold text-foreground">Conflicting {fieldLabel}</p>
+          <p className="text-xs text-muted-foreground">Pick the correct value to resolve the conflict</p>
+        </div>
+        <div className="space-y-2">
+          {conflict.candidates.map((candidate, index) => (
+            <Button
+              key={index}
+              variant="outline"
+              className="w-full h-auto justify-start py-2 text-left"
+              disabled={!onResolve}
+              onClick={() => onResolve?.(candidate)}
+            >
+              <div className="min-w-0">
+                <p className="text-sm font-medium">{formatValue(candidate.value)}</p>
+                <p className="text-xs text-muted-foreground truncate">
+                  <span className="capitalize">{candidate.documentType || "unknown"}</span>
+                  {candidate.fileName ? ` - ${candidate.fileName}` : ""}
+                  {candidate.page > 1 ? ` (page ${candidate.page})` : ""}
+                </p>
+              </div>
+            </Button>
+          ))}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
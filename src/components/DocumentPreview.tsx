@@ -1,29 +1,126 @@
-import { FileText, X } from "lucide-react";
+import { CheckCircle2, Clock, FileText, Loader2, RefreshCw, RotateCw, X, XCircle } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { DocumentType } from "./DocumentUpload";
+import type { ExtractedData } from "./ExtractedDataTable";
+
+export type DocumentStatus = "queued" | "processing" | "done" | "failed";
+
+export interface UploadedDocument {
+  file: File;
+  documentType: DocumentType | null; // null until classified, or when the classifier could not tell
+  detectedType: DocumentType | null;
+  classifying: boolean;
+  pageImages?: string[]; // base64 pages, kept from classification so PDFs are rasterized once
+  status: DocumentStatus;
+  error?: string; // why the last extraction failed
+  results?: ExtractedData[]; // passenger records extracted from this file
+  cached?: boolean; // every page was answered from a cache instead of the model
+}
+
+const documentTypeLabels: Record<DocumentType, string> = {
+  passport: "Passport",
+  visa: "Visa",
+  flight: "Flight Ticket",
+};
 
 interface DocumentPreviewProps {
-  files: File[];
-  onRemove: (index: number) => void;
-  documentType: DocumentType;
-  title: string;
+  documents: UploadedDocument[];
+  onRemove?: (index: number) => void; // left out for members who may only look at the documents
+  onChangeType?: (index: number, documentType: DocumentType) => void;
+  onRetry?: (index: number) => void;
+  onReextract?: (index: number) => void;
+  disabled?: boolean;
 }
 
-export const DocumentPreview = ({ files, onRemove, documentType, title }: DocumentPreviewProps) => {
-  if (files.length === 0) return null;
+const DocumentStatusLine = ({ document, onRetry, onReextract, disabled }: {
+  document: UploadedDocument;
+  onRetry?: () => void;
+  onReextract?: () => void;
+  disabled?: boolean;
+}) => {
+  switch (document.status) {
+    case "processing":
+      return (
+        <p className="flex items-center gap-1 text-xs text-primary">
+          <Loader2 className="h-3 w-3 animate-spin" />
+          Processing...
+        </p>
+      );
+    case "done": {
+      const count = document.results?.length ?? 0;
+      return (
+        <div className="space-y-1">
+          <p className="flex items-center gap-1 text-xs text-primary">
+            <CheckCircle2 className="h-3 w-3" />
+            Done - {count} passenger{count === 1 ? "" : "s"}{document.cached ? " (cached)" : ""}
+          </p>
+          {onReextract && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 gap-1 px-2 text-xs"
+              onClick={onReextract}
+              disabled={disabled}
+              title="Ignore cached results and send this file to the model again"
+            >
+              <RefreshCw className="h-3 w-3" />
+              Force re-extract
+            </Button>
+          )}
+        </div>
+      );
+    }
+    case "failed":
+      return (
+        <div className="space-y-1">
+          <p className="flex items-start gap-1 text-xs text-destructive">
+            <XCircle className="h-3 w-3 mt-0.5 shrink-0" />
+            <span>Failed{document.error ? `: ${document.error}` : ""}</span>
+          </p>
+          {onRetry && (
+            <Button variant="outline" size="sm" className="h-7 gap-1 text-xs" onClick={onRetry} disabled={disabled}>
+              <RotateCw className="h-3 w-3" />
+              Retry
+            </Button>
+          )}
+        </div>
+      );
+    default:
+      return (
+        <p className="flex items-center gap-1 text-xs text-muted-foreground">
+          <Clock className="h-3 w-3" />
+          Queued
+        </p>
+      );
+  }
+};
+
+export const DocumentPreview = ({ documents, onRemove, onChangeType, onRetry, onReextract, disabled }: DocumentPreviewProps) => {
+  if (documents.length === 0) return null;
+
+  const counts = (Object.keys(documentTypeLabels) as DocumentType[])
+    .map((type) => ({ type, count: documents.filter((d) => d.documentType === type).length }))
+    .filter(({ count }) => count > 0)
+    .map(({ type, count }) => `${count} ${documentTypeLabels[type].toLowerCase()}${count > 1 ? "s" : ""}`);
 
   return (
     <div className="space-y-3">
-      <h4 className="text-sm font-medium text-foreground">{title} ({files.length})</h4>
-      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
-        {files.map((file, index) => (
+      <div className="flex flex-wrap items-baseline justify-between gap-2">
+        <h4 className="text-sm font-medium text-foreground">Documents ({documents.length})</h4>
+        {counts.length > 0 && (
+          <p className="text-xs text-muted-foreground">{counts.join(" · ")}</p>
+        )}
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
+        {documents.map((document, index) => (
           <Card key={index} className="relative overflow-hidden p-3">
             <div className="flex items-start gap-2">
-              {file.type.startsWith("image/") ? (
+              {document.file.type.startsWith("image/") ? (
                 <img
-                  src={URL.createObjectURL(file)}
-                  alt={file.name}
+                  src={URL.createObjectURL(document.file)}
+                  alt={document.file.name}
                   className="w-12 h-12 object-cover rounded"
                 />
               ) : (
@@ -31,22 +128,69 @@ export const DocumentPreview = ({ files, onRemove, documentType, title }: Docume
                   <FileText className="h-6 w-6 text-muted-foreground" />
                 </div>
               )}
-              <div className="flex-1 min-w-0">
+              <div className="flex-1 min-w-0 space-y-1">
                 <p className="text-sm font-medium text-foreground truncate">
-                  {file.name}
+                  {document.file.name}
                 </p>
                 <p className="text-xs text-muted-foreground">
-                  {(file.size / 1024).toFixed(2)} KB
+                  {(document.file.size / 1024).toFixed(2)} KB
                 </p>
+                {document.classifying ? (
+                  <p className="flex items-center gap-1 text-xs text-muted-foreground">
+                    <Loader2 className="h-3 w-3 animate-spin" />
+                    Detecting document type...
+                  </p>
+                ) : (
+                  <>
+                    {onChangeType ? (
+                      <Select
+                        value={document.documentType ?? undefined}
+                        onValueChange={(value) => onChangeType(index, value as DocumentType)}
+                        disabled={disabled}
+                      >
+                        <SelectTrigger className="h-8 text-xs">
+                          <SelectValue placeholder="Choose document type" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(Object.keys(documentTypeLabels) as DocumentType[]).map((type) => (
+                            <SelectItem key={type} value={type}>
+                              {documentTypeLabels[type]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    ) : (
+                      <p className="text-xs font-medium text-foreground">
+                        {document.documentType ? documentTypeLabels[document.documentType] : "Type not set"}
+                      </p>
+                    )}
+                    <p className="text-xs text-muted-foreground">
+                      {!document.detectedType
+                        ? onChangeType ? "Type not recognised - please choose" : "Type not recognised"
+                        : document.documentType === document.detectedType
+                          ? "Detected automatically"
+                          : `Changed from ${documentTypeLabels[document.detectedType]}`}
+                    </p>
+                    <DocumentStatusLine
+                      document={document}
+                      onRetry={onRetry && (() => onRetry(index))}
+                      onReextract={onReextract && (() => onReextract(index))}
+                      disabled={disabled}
+                    />
+                  </>
+                )}
               </div>
-              <Button
-                variant="ghost"
-                size="sm"
-                onClick={() => onRemove(index)}
-                className="h-8 w-8 p-0"
-              >
-                <X className="h-4 w-4" />
-              </Button>
+              {onRemove && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onRemove(index)}
+                  className="h-8 w-8 p-0"
+                  disabled={disabled}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              )}
             </div>
           </Card>
         ))}
@@ -1,52 +1,30 @@
 import { useCallback } from "react";
-import { Upload, Plane, FileText, CreditCard } from "lucide-react";
+import { Upload } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { isPdf } from "@/lib/pdf";
 
 export type DocumentType = "passport" | "visa" | "flight";
 
 interface DocumentUploadProps {
   onFilesSelected: (files: File[]) => void;
   isProcessing: boolean;
-  documentType: DocumentType;
 }
 
-const documentConfig = {
-  passport: {
-    icon: FileText,
-    title: "Passports",
-    description: "Upload passport document images",
-    color: "text-primary",
-  },
-  visa: {
-    icon: CreditCard,
-    title: "Visas",
-    description: "Upload visa document images",
-    color: "text-chart-2",
-  },
-  flight: {
-    icon: Plane,
-    title: "Flight Tickets",
-    description: "Upload flight ticket images",
-    color: "text-chart-3",
-  },
-};
-
-export const DocumentUpload = ({ onFilesSelected, isProcessing, documentType }: DocumentUploadProps) => {
+export const DocumentUpload = ({ onFilesSelected, isProcessing }: DocumentUploadProps) => {
   const { toast } = useToast();
-  const config = documentConfig[documentType];
 
   const handleDrop = useCallback(
     (e: React.DragEvent<HTMLDivElement>) => {
       e.preventDefault();
       const files = Array.from(e.dataTransfer.files);
-      const validFiles = files.filter((file) => 
-        file.type.startsWith("image/")
+      const validFiles = files.filter((file) =>
+        file.type.startsWith("image/") || isPdf(file)
       );
 
       if (validFiles.length === 0) {
         toast({
           title: "Invalid file type",
-          description: "Please upload images (JPG, PNG, WEBP) only",
+          description: "Please upload images (JPG, PNG, WEBP) or PDFs only",
           variant: "destructive",
         });
         return;
@@ -61,11 +39,12 @@ export const DocumentUpload = ({ onFilesSelected, isProcessing, documentType }:
     if (e.target.files) {
       const files = Array.from(e.target.files);
       onFilesSelected(files);
+      // Allow picking the same file again after removing it
+      e.target.value = "";
     }
   };
 
-  const IconComponent = config.icon;
-  const inputId = `file-upload-${documentType}`;
+  const inputId = "file-upload";
 
   return (
     <div
@@ -76,7 +55,7 @@ export const DocumentUpload = ({ onFilesSelected, isProcessing, documentType }:
       <input
         type="file"
         multiple
-        accept="image/*"
+        accept="image/*,application/pdf"
         onChange={handleFileInput}
         className="hidden"
         id={inputId}
@@ -85,17 +64,17 @@ export const DocumentUpload = ({ onFilesSelected, isProcessing, documentType }:
       <label htmlFor={inputId} className="cursor-pointer">
         <div className="flex flex-col items-center gap-3">
           <div className="rounded-full bg-primary/10 p-4">
-            <IconComponent className={`h-8 w-8 ${config.color}`} />
+            <Upload className="h-8 w-8 text-primary" />
           </div>
           <div>
             <h3 className="text-lg font-semibold text-foreground mb-1">
-              {isProcessing ? "Processing..." : config.title}
+              {isProcessing ? "Processing..." : "Drop all travel documents here"}
             </h3>
             <p className="text-sm text-muted-foreground">
-              {config.description}
+              Passports, visas and flight tickets - each file is identified automatically
             </p>
             <p className="text-xs text-muted mt-1">
-              JPG, PNG, WEBP
+              JPG, PNG, WEBP, PDF
             </p>
           </div>
         </div>
@@ -0,0 +1,77 @@
+import { X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { ExtractedData } from "./ExtractedDataTable";
+
+interface DocumentViewerProps {
+  passenger: ExtractedData;
+  selectedField: string | null;
+  fieldLabel?: string;
+  onClose: () => void;
+}
+
+export const DocumentViewer = ({ passenger, selectedField, fieldLabel, onClose }: DocumentViewerProps) => {
+  const sources = passenger.sources || [];
+  const provenance = selectedField ? passenger.provenance?.[selectedField] : undefined;
+
+  return (
+    <Card className="p-4 space-y-3 xl:sticky xl:top-4">
+      <div className="flex items-start justify-between gap-2">
+        <div className="min-w-0">
+          <h4 className="text-sm font-semibold text-foreground truncate">{passenger.name || "Unnamed passenger"}</h4>
+          <p className="text-xs text-muted-foreground">
+            {sources.length} source document{sources.length === 1 ? "" : "s"}
+            {selectedField && fieldLabel ? ` - highlighting ${fieldLabel}` : ""}
+          </p>
+        </div>
+        <Button variant="ghost" size="sm" onClick={onClose} className="h-8 w-8 p-0">
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {sources.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No source images available for this passenger.</p>
+      ) : (
+        <ScrollArea className="h-[70vh] pr-3">
+          <div className="space-y-4">
+            {sources.map((source, index) => {
+              const box = selectedField ? source.boundingBoxes[selectedField] : undefined;
+              const suppliedValue =
+                provenance?.fileName === source.fileName &&
+                provenance.page === source.page &&
+                provenance.documentType === source.documentType;
+
+              return (
+                <div key={`${source.fileName}-${source.page}-${index}`} className="space-y-2">
+                  <div className="flex items-center gap-2">
+                    <Badge variant="secondary" className="capitalize">{source.documentType}</Badge>
+                    <span className="text-xs text-muted-foreground truncate">
+                      {source.fileName}{source.page > 1 ? ` (page ${source.page})` : ""}
+                    </span>
+                    {suppliedValue && <Badge className="shrink-0">Value used</Badge>}
+                  </div>
+                  <div className="relative">
+                    <img src={source.imageUrl} alt={source.fileName} className="w-full rounded border border-border" />
+                    {box && (
+                      <div
+                        className="absolute border-2 border-primary bg-primary/20 rounded-sm pointer-events-none"
+                        style={{
+                          left: `${box.x * 100}%`,
+                          top: `${box.y * 100}%`,
+                          width: `${box.width * 100}%`,
+                          height: `${box.height * 100}%`,
+                        }}
+                      />
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </ScrollArea>
+      )}
+    </Card>
+  );
+};
@@ -1,5 +1,15 @@
-import { Download, Loader2 } from "lucide-react";
+import { useState } from "react";
+import { AlertTriangle, BadgeCheck, ChevronDown, Download, Filter, Merge, Pencil, ShieldCheck, Split } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import {
   Table,
   TableBody,
@@ -9,6 +19,15 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import { Card } from "@/components/ui/card";
+import { cn } from "@/lib/utils";
+import { isLowConfidence, needsReview } from "@/lib/confidence";
+import { normalizeFieldValue, validateField } from "@/lib/fieldValidation";
+import { extractedColumns, ExtractedColumn } from "@/lib/columns";
+import { formatSegment } from "@/lib/itinerary";
+import { checkTravelDocuments, getTravelStatus } from "@/lib/travelRules";
+import { DocumentViewer } from "./DocumentViewer";
+import { ConflictResolver } from "./ConflictResolver";
+import type { ExtractedFields, FlightSegment } from "../../supabase/functions/_shared/extractionSchema";
 
 const formatDate = (dateValue: string | undefined): string => {
   if (!dateValue) return '';
@@ -39,106 +58,455 @@ const formatDate = (dateValue: string | undefined): string => {
   return dateValue;
 };
 
-export interface ExtractedData {
-  name: string;
-  passportNumber: string;
-  dateOfBirth: string;
-  nationality: string;
-  passportIssueDate?: string;
-  expiryDate: string;
-  visaType?: string;
-  flightNumber?: string;
-  bookingReference?: string;
-  ticketNumber?: string;
-  departure?: string;
-  arrival?: string;
-  transitStop?: string;
-  seatNumber?: string;
-  inflightMeal?: string;
+export interface FieldConfidence {
+  score: number; // 0-1, as reported by the model
+  reason: string;
+}
+
+// Fractions of the image size, origin at the top-left corner
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// One page image that contributed to a passenger record
+export interface DocumentSource {
+  fileName: string;
+  documentType: string;
+  page: number;
+  imageUrl: string;
+  boundingBoxes: Record<string, BoundingBox>;
 }
 
+// Which document a consolidated field's value came from
+export interface FieldProvenance {
+  fileName: string;
+  documentType: string;
+  page: number;
+  rawValue: string;
+}
+
+// One of the disagreeing values seen for a field while merging documents
+export interface ConflictCandidate {
+  value: string;
+  fileName: string;
+  documentType: string;
+  page: number;
+}
+
+export interface FieldConflict {
+  field: ExtractedField;
+  candidates: ConflictCandidate[];
+}
+
+export type { FlightSegment };
+
+// Extracted passenger fields come from the schema the edge function validates model output against
+export interface ExtractedData extends ExtractedFields {
+  mrzVerified?: boolean;
+  mrzWarnings?: string[];
+  confidence?: Record<string, FieldConfidence>;
+  editedFields?: string[]; // fields corrected by hand; re-processing must not overwrite them
+  sources?: DocumentSource[];
+  provenance?: Record<string, FieldProvenance>;
+  conflicts?: FieldConflict[]; // unresolved disagreements between merged documents
+  documentIds?: string[]; // uploaded files merged into this record
+  segments?: FlightSegment[]; // every flight this passenger takes, in itinerary order
+  approval?: PassengerApproval; // set by a reviewer; dropped when the passenger's data changes
+}
+
+export interface PassengerApproval {
+  by: string; // reviewer's email
+  at: string; // ISO timestamp
+}
+
+// The plain string fields shown as table columns
+export type ExtractedField = keyof ExtractedFields;
+
+
 interface ExtractedDataTableProps {
   data: ExtractedData[];
   isProcessing: boolean;
-  onExport: () => void;
+  onExport: (options: { includeProvenance: boolean }) => void;
+  onUpdateField?: (rowIndex: number, field: ExtractedField, value: string) => void;
+  onResolveConflict?: (rowIndex: number, field: ExtractedField, candidate: ConflictCandidate) => void;
+  onMergeRows?: (rowIndexes: number[]) => void;
+  onSplitRow?: (rowIndex: number) => void;
+  onApproveRow?: (rowIndex: number, approved: boolean) => void;
+  allowProvenanceExport?: boolean;
+}
+
+const MrzIndicator = ({ row }: { row: ExtractedData }) => {
+  if (row.mrzWarnings && row.mrzWarnings.length > 0) {
+    return (
+      <span title={row.mrzWarnings.join("\n")}>
+        <AlertTriangle className="h-4 w-4 text-destructive" />
+      </span>
+    );
+  }
+  if (row.mrzVerified) {
+    return (
+      <span title="Verified against MRZ check digits">
+        <ShieldCheck className="h-4 w-4 text-primary" />
+      </span>
+    );
+  }
+  return null;
+};
+
+const ApprovalCell = ({ row, onToggle }: { row: ExtractedData; onToggle?: (approved: boolean) => void }) => {
+  const approval = row.approval;
+  const title = approval
+    ? `Approved by ${approval.by} on ${new Date(approval.at).toLocaleString("en-GB", { day: "2-digit", month: "short", year: "numeric", hour: "2-digit", minute: "2-digit" })}`
+    : undefined;
+
+  if (!onToggle) {
+    return approval ? (
+      <Badge variant="secondary" className="gap-1 whitespace-nowrap" title={title}>
+        <BadgeCheck className="h-3 w-3" />
+        Approved
+      </Badge>
+    ) : (
+      <span className="text-muted-foreground">-</span>
+    );
+  }
+
+  return (
+    <Button
+      variant={approval ? "secondary" : "outline"}
+      size="sm"
+      className="h-7 gap-1 whitespace-nowrap"
+      title={approval ? `${title} - click to withdraw` : "Mark this passenger as checked"}
+      onClick={() => onToggle(!approval)}
+    >
+      <BadgeCheck className="h-3 w-3" />
+      {approval ? "Approved" : "Approve"}
+    </Button>
+  );
+};
+
+const TravelStatusBadge = ({ row }: { row: ExtractedData }) => {
+  const status = getTravelStatus(row);
+  if (status === "unchecked") {
+    return (
+      <span className="text-muted-foreground" title="No departure date to check travel documents against">
+        -
+      </span>
+    );
+  }
+
+  const findings = checkTravelDocuments(row);
+  const errorCount = findings.filter((f) => f.severity === "error").length;
+  const title = findings.length > 0
+    ? findings.map((f) => `${f.severity === "error" ? "Error" : "Warning"}: ${f.message}`).join("\n")
+    : "Passport and visa valid for the trip";
+
+  return (
+    <Badge
+      variant={status === "error" ? "destructive" : status === "warning" ? "outline" : "secondary"}
+      className="whitespace-nowrap"
+      title={title}
+    >
+      {status === "error" ? `${errorCount} issue${errorCount > 1 ? "s" : ""}` : status === "warning" ? "Check" : "OK"}
+    </Badge>
+  );
+};
+
+interface SelectedCell {
+  rowIndex: number;
+  field: ExtractedField | null;
+}
+
+interface EditingCell {
+  rowIndex: number;
+  field: ExtractedField;
+  value: string;
+  error: string | null;
 }
 
 export const ExtractedDataTable = ({
   data,
   isProcessing,
   onExport,
+  onUpdateField,
+  onResolveConflict,
+  onMergeRows,
+  onSplitRow,
+  onApproveRow,
+  allowProvenanceExport = true,
 }: ExtractedDataTableProps) => {
-  if (data.length === 0 && !isProcessing) return null;
+  const [showReviewOnly, setShowReviewOnly] = useState(false);
+  const [editing, setEditing] = useState<EditingCell | null>(null);
+  const [selected, setSelected] = useState<SelectedCell | null>(null);
+  const [checkedRows, setCheckedRows] = useState<number[]>([]);
+
+  // While the first run is in progress the page shows its progress card instead
+  if (data.length === 0) return null;
+
+  const reviewCount = data.filter(needsReview).length;
+  const selectedPassenger = selected ? data[selected.rowIndex] : undefined;
+  const visibleRows = data
+    .map((row, rowIndex) => ({ row, rowIndex }))
+    .filter(({ row }) => !showReviewOnly || needsReview(row));
+
+  const startEditing = (rowIndex: number, column: ExtractedColumn) => {
+    if (!onUpdateField) return;
+    const value = data[rowIndex][column.key] || "";
+    setEditing({
+      rowIndex,
+      field: column.key,
+      value: column.isDate ? formatDate(value) : value,
+      error: null,
+    });
+  };
+
+  const commitEditing = () => {
+    if (!editing || !onUpdateField) return;
+
+    const error = validateField(editing.field, editing.value);
+    if (error) {
+      setEditing({ ...editing, error });
+      return;
+    }
+
+    const value = normalizeFieldValue(editing.field, editing.value);
+    if (value !== (data[editing.rowIndex][editing.field] || "")) {
+      onUpdateField(editing.rowIndex, editing.field, value);
+    }
+    setEditing(null);
+  };
+
+  const getCellTitle = (row: ExtractedData, field: ExtractedField): string | undefined => {
+    const lines: string[] = [];
+    const provenance = row.provenance?.[field];
+    const confidence = row.confidence?.[field];
+
+    if (row.editedFields?.includes(field)) {
+      lines.push("Edited by user");
+    }
+    if (provenance) {
+      const page = provenance.page > 1 ? `, page ${provenance.page}` : "";
+      lines.push(`Source: ${provenance.documentType} - ${provenance.fileName}${page}`);
+      lines.push(`Raw value: ${provenance.rawValue}`);
+    }
+    if (field === "flightNumber" && row.segments?.length) {
+      lines.push("Itinerary:", ...row.segments.map(formatSegment));
+    }
+    if (confidence && !row.editedFields?.includes(field)) {
+      lines.push(`Confidence ${Math.round(confidence.score * 100)}%${confidence.reason ? ` - ${confidence.reason}` : ""}`);
+    }
+
+    return lines.length > 0 ? lines.join("\n") : undefined;
+  };
+
+  const toggleChecked = (rowIndex: number, checked: boolean) => {
+    setCheckedRows((prev) => (checked ? [...prev, rowIndex] : prev.filter((i) => i !== rowIndex)));
+  };
+
+  // Row indexes shift once passengers are merged or split, so drop any row-based selection
+  const mergeChecked = () => {
+    onMergeRows?.([...checkedRows].sort((a, b) => a - b));
+    setCheckedRows([]);
+    setSelected(null);
+  };
+
+  const splitRow = (rowIndex: number) => {
+    onSplitRow?.(rowIndex);
+    setCheckedRows([]);
+    setSelected(null);
+  };
+
+  const renderCell = (row: ExtractedData, rowIndex: number, column: ExtractedColumn) => {
+    const value = row[column.key];
+    const display = column.isDate ? formatDate(value) : value;
+    const isEdited = row.editedFields?.includes(column.key);
+    const lowConfidence = !!value && !isEdited && isLowConfidence(row.confidence?.[column.key]);
+    const isEditing = editing?.rowIndex === rowIndex && editing.field === column.key;
+    const isSelected = selected?.rowIndex === rowIndex && selected.field === column.key;
+    const conflict = row.conflicts?.find((c) => c.field === column.key);
+    const conflictCount = row.conflicts?.length ?? 0;
+
+    if (isEditing) {
+      return (
+        <TableCell key={column.key} className="min-w-[10rem] align-top">
+          <Input
+            autoFocus
+            value={editing.value}
+            onChange={(e) => setEditing({ ...editing, value: e.target.value, error: null })}
+            onBlur={commitEditing}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") commitEditing();
+              if (e.key === "Escape") setEditing(null);
+            }}
+            className={cn("h-8", editing.error && "border-destructive")}
+            placeholder={column.isDate ? "DD-MMM-YYYY" : undefined}
+          />
+          {editing.error && (
+            <p className="mt-1 text-xs text-destructive">{editing.error}</p>
+          )}
+        </TableCell>
+      );
+    }
+
+    return (
+      <TableCell
+        key={column.key}
+        className={cn(
+          column.key === "name" && "font-medium",
+          "cursor-pointer",
+          (lowConfidence || conflict) && "bg-destructive/10 text-destructive",
+          isSelected && "ring-2 ring-inset ring-primary"
+        )}
+        title={getCellTitle(row, column.key)}
+        onClick={() => setSelected({ rowIndex, field: column.key })}
+        onDoubleClick={() => startEditing(rowIndex, column)}
+      >
+        <div className="flex items-center gap-1">
+          {display || (column.optional ? "-" : "")}
+          {isEdited && <Pencil className="h-3 w-3 text-muted-foreground" />}
+          {column.key === "passportNumber" && <MrzIndicator row={row} />}
+          {conflict && (
+            <ConflictResolver
+              conflict={conflict}
+              fieldLabel={column.label}
+              formatValue={(v) => (column.isDate ? formatDate(v) : v)}
+              onResolve={onResolveConflict && ((candidate) => onResolveConflict(rowIndex, column.key, candidate))}
+            />
+          )}
+          {column.key === "name" && conflictCount > 0 && (
+            <Badge variant="destructive" className="ml-1 shrink-0">
+              {conflictCount} conflict{conflictCount > 1 ? "s" : ""}
+            </Badge>
+          )}
+        </div>
+      </TableCell>
+    );
+  };
 
   return (
     <Card className="p-6">
       <div className="flex justify-between items-center mb-6">
-        <h3 className="text-lg font-semibold text-foreground">
-          Extracted Information
-        </h3>
+        <div>
+          <h3 className="text-lg font-semibold text-foreground">
+            Extracted Information
+          </h3>
+          {data.length > 0 && (
+            <p className="text-xs text-muted-foreground">
+              Click a cell to view it on the source document{onUpdateField ? ", double-click to edit" : ""}
+            </p>
+          )}
+        </div>
         {data.length > 0 && (
-          <Button onClick={onExport} className="gap-2">
-            <Download className="h-4 w-4" />
-            Export to CSV
-          </Button>
+          <div className="flex items-center gap-2">
+            {onMergeRows && checkedRows.length >= 2 && (
+              <Button variant="outline" onClick={mergeChecked} className="gap-2" disabled={isProcessing}>
+                <Merge className="h-4 w-4" />
+                Merge {checkedRows.length} rows
+              </Button>
+            )}
+            <Button
+              variant={showReviewOnly ? "default" : "outline"}
+              onClick={() => setShowReviewOnly((prev) => !prev)}
+              className="gap-2"
+              disabled={reviewCount === 0 && !showReviewOnly}
+            >
+              <Filter className="h-4 w-4" />
+              Needs review ({reviewCount})
+            </Button>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button className="gap-2" disabled={isProcessing}>
+                  <Download className="h-4 w-4" />
+                  Export to CSV
+                  <ChevronDown className="h-4 w-4" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onClick={() => onExport({ includeProvenance: false })}>
+                  Passenger data
+                </DropdownMenuItem>
+                {allowProvenanceExport && (
+                  <DropdownMenuItem onClick={() => onExport({ includeProvenance: true })}>
+                    Passenger data + provenance sheet
+                  </DropdownMenuItem>
+                )}
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </div>
         )}
       </div>
 
-      {isProcessing ? (
-        <div className="flex items-center justify-center py-12">
-          <div className="flex flex-col items-center gap-3">
-            <Loader2 className="h-8 w-8 animate-spin text-primary" />
-            <p className="text-muted-foreground">
-              Processing documents with AI...
-            </p>
-          </div>
-        </div>
-      ) : (
+      <div
+        className={cn(
+          "grid grid-cols-1 gap-6",
+          selectedPassenger && "xl:grid-cols-[minmax(0,1fr)_420px]"
+        )}
+      >
         <div className="overflow-x-auto">
           <Table>
             <TableHeader>
               <TableRow>
-                <TableHead>Name</TableHead>
-                <TableHead>Passport Number</TableHead>
-                <TableHead>Date of Birth</TableHead>
-                <TableHead>Nationality</TableHead>
-                <TableHead>Passport Issue Date</TableHead>
-                <TableHead>Passport Expiry Date</TableHead>
-                <TableHead>Visa Type</TableHead>
-                <TableHead>Flight Number</TableHead>
-                <TableHead>Booking Reference</TableHead>
-                <TableHead>Ticket Number</TableHead>
-                <TableHead>Departure</TableHead>
-                <TableHead>Arrival</TableHead>
-                <TableHead>Transit Stop</TableHead>
-                <TableHead>Seat Number</TableHead>
-                <TableHead>Inflight Meal</TableHead>
+                {(onMergeRows || onSplitRow) && <TableHead className="w-20" />}
+                <TableHead>Travel Check</TableHead>
+                <TableHead>Review</TableHead>
+                {extractedColumns.map((column) => (
+                  <TableHead key={column.key}>{column.label}</TableHead>
+                ))}
               </TableRow>
             </TableHeader>
             <TableBody>
-              {data.map((row, index) => (
-                <TableRow key={index}>
-                  <TableCell className="font-medium">{row.name}</TableCell>
-                  <TableCell>{row.passportNumber}</TableCell>
-                  <TableCell>{formatDate(row.dateOfBirth)}</TableCell>
-                  <TableCell>{row.nationality}</TableCell>
-                  <TableCell>{formatDate(row.passportIssueDate) || "-"}</TableCell>
-                  <TableCell>{formatDate(row.expiryDate)}</TableCell>
-                  <TableCell>{row.visaType || "-"}</TableCell>
-                  <TableCell>{row.flightNumber || "-"}</TableCell>
-                  <TableCell>{row.bookingReference || "-"}</TableCell>
-                  <TableCell>{row.ticketNumber || "-"}</TableCell>
-                  <TableCell>{row.departure || "-"}</TableCell>
-                  <TableCell>{row.arrival || "-"}</TableCell>
-                  <TableCell>{row.transitStop || "-"}</TableCell>
-                  <TableCell>{row.seatNumber || "-"}</TableCell>
-                  <TableCell>{row.inflightMeal || "-"}</TableCell>
+              {visibleRows.map(({ row, rowIndex }) => (
+                <TableRow
+                  key={rowIndex}
+                  data-state={selected?.rowIndex === rowIndex ? "selected" : undefined}
+                >
+                  {(onMergeRows || onSplitRow) && (
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        {onMergeRows && (
+                          <Checkbox
+                            checked={checkedRows.includes(rowIndex)}
+                            onCheckedChange={(checked) => toggleChecked(rowIndex, checked === true)}
+                            aria-label={`Select ${row.name || "passenger"} for merging`}
+                          />
+                        )}
+                        {onSplitRow && (row.documentIds?.length ?? 0) > 1 && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-7 w-7 p-0"
+                            title={`Split into ${row.documentIds.length} rows, one per source document`}
+                            onClick={() => splitRow(rowIndex)}
+                          >
+                            <Split className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                  )}
+                  <TableCell>
+                    <TravelStatusBadge row={row} />
+                  </TableCell>
+                  <TableCell>
+                    <ApprovalCell row={row} onToggle={onApproveRow && ((approved) => onApproveRow(rowIndex, approved))} />
+                  </TableCell>
+                  {extractedColumns.map((column) => renderCell(row, rowIndex, column))}
                 </TableRow>
               ))}
             </TableBody>
           </Table>
         </div>
-      )}
+        {selectedPassenger && (
+          <DocumentViewer
+            passenger={selectedPassenger}
+            selectedField={selected.field}
+            fieldLabel={extractedColumns.find((c) => c.key === selected.field)?.label}
+            onClose={() => setSelected(null)}
+          />
+        )}
+      </div>
     </Card>
   );
 };
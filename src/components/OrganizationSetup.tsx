@@ -0,0 +1,89 @@
+import { FormEvent, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Building2, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+
+// Shown to a signed-in user who does not belong to any agency yet. Only platform admins
+// may start an agency; everyone else waits to be added to one.
+export const OrganizationSetup = () => {
+  const { user, refreshOrganizations, selectOrganization, signOut } = useAuth();
+  const [name, setName] = useState("");
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+  const { data: isPlatformAdmin, isLoading } = useQuery({
+    queryKey: ["platform-admin", user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("is_platform_admin");
+      if (error) throw new Error(error.message);
+      return data;
+    },
+  });
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    setSaving(true);
+    const { data, error } = await supabase.rpc("create_organization", { name: name.trim() });
+    setSaving(false);
+    if (error) {
+      toast({ title: "Could not create agency", description: error.message, variant: "destructive" });
+      return;
+    }
+    selectOrganization(data.id);
+    await refreshOrganizations();
+  };
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-background p-4">
+      <Card className="w-full max-w-md p-6 space-y-6">
+        <div className="flex items-center gap-3">
+          <div className="rounded-lg bg-primary/10 p-2">
+            <Building2 className="h-6 w-6 text-primary" />
+          </div>
+          <div>
+            <h1 className="text-xl font-bold text-foreground">Set up your agency</h1>
+            <p className="text-sm text-muted-foreground">
+              Batches are shared with everyone in your agency. Ask your agency admin to add {user?.email} to
+              it{isPlatformAdmin ? ", or create a new one" : ""}.
+            </p>
+          </div>
+        </div>
+        {isLoading ? (
+          <p className="flex items-center gap-2 text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading...
+          </p>
+        ) : !isPlatformAdmin ? (
+          <div className="flex justify-end">
+            <Button variant="ghost" onClick={signOut}>Sign out</Button>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="organization-name">Agency name</Label>
+              <Input
+                id="organization-name"
+                value={name}
+                onChange={(event) => setName(event.target.value)}
+                placeholder="e.g. Al-Noor Travels"
+                required
+              />
+            </div>
+            <div className="flex justify-between gap-2">
+              <Button type="button" variant="ghost" onClick={signOut}>Sign out</Button>
+              <Button type="submit" disabled={saving || !name.trim()} className="gap-2">
+                {saving && <Loader2 className="h-4 w-4 animate-spin" />}
+                Create agency
+              </Button>
+            </div>
+          </form>
+        )}
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,80 @@
+import { useEffect, useState } from "react";
+import { Loader2, Square } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { estimateSecondsRemaining } from "@/lib/jobQueue";
+import { DocumentType } from "./DocumentUpload";
+import { UploadedDocument } from "./DocumentPreview";
+
+interface ProcessingProgressProps {
+  documents: UploadedDocument[]; // the documents in the current run
+  startedAt: number;
+  cancelling: boolean;
+  onCancel: () => void;
+}
+
+const typeLabels: Record<DocumentType, string> = {
+  passport: "Passports",
+  visa: "Visas",
+  flight: "Flight tickets",
+};
+
+const formatDuration = (seconds: number): string => {
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}m ${String(seconds % 60).padStart(2, "0")}s`;
+};
+
+export const ProcessingProgress = ({ documents, startedAt, cancelling, onCancel }: ProcessingProgressProps) => {
+  // Tick once a second so the time estimate counts down between completions
+  const [now, setNow] = useState(Date.now());
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  const isFinished = (d: UploadedDocument) => d.status === "done" || d.status === "failed";
+  const finished = documents.filter(isFinished).length;
+  const failed = documents.filter((d) => d.status === "failed").length;
+  const total = documents.length;
+  const secondsLeft = estimateSecondsRemaining(finished, total, now - startedAt);
+
+  const typeCounts = (Object.keys(typeLabels) as DocumentType[])
+    .map((type) => {
+      const ofType = documents.filter((d) => d.documentType === type);
+      return { type, total: ofType.length, finished: ofType.filter(isFinished).length };
+    })
+    .filter((count) => count.total > 0);
+
+  return (
+    <Card className="p-6 space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <Loader2 className="h-5 w-5 animate-spin text-primary" />
+          <div>
+            <p className="font-medium text-foreground">
+              {cancelling ? "Cancelling - finishing documents already sent..." : "Processing documents with AI..."}
+            </p>
+            <p className="text-sm text-muted-foreground">
+              {finished} of {total} done{failed > 0 ? `, ${failed} failed` : ""}
+              {secondsLeft !== null && !cancelling ? ` - about ${formatDuration(secondsLeft)} remaining` : ""}
+            </p>
+          </div>
+        </div>
+        <Button variant="outline" onClick={onCancel} disabled={cancelling} className="gap-2">
+          <Square className="h-4 w-4" />
+          Cancel
+        </Button>
+      </div>
+      <Progress value={total > 0 ? (finished / total) * 100 : 0} />
+      <div className="flex flex-wrap gap-x-6 gap-y-1 text-sm text-muted-foreground">
+        {typeCounts.map(({ type, total: typeTotal, finished: typeFinished }) => (
+          <span key={type}>
+            {typeLabels[type]}: {typeFinished}/{typeTotal}
+          </span>
+        ))}
+      </div>
+    </Card>
+  );
+};
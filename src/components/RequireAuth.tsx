@@ -0,0 +1,27 @@
+import { ReactNode } from "react";
+import { Navigate, useLocation } from "react-router-dom";
+import { Loader2 } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import { OrganizationSetup } from "./OrganizationSetup";
+
+// Pages inside need a signed-in user with an agency; everyone else goes to /auth first
+export const RequireAuth = ({ children }: { children: ReactNode }) => {
+  const { session, loading, organization } = useAuth();
+  const location = useLocation();
+
+  if (loading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center gap-2 bg-background text-muted-foreground">
+        <Loader2 className="h-5 w-5 animate-spin" />
+        Loading...
+      </div>
+    );
+  }
+  if (!session) {
+    return <Navigate to="/auth" replace state={{ from: location.pathname }} />;
+  }
+  if (!organization) {
+    return <OrganizationSetup />;
+  }
+  return <>{children}</>;
+};
@@ -0,0 +1,32 @@
+import { createContext, useContext } from "react";
+import type { Session, User } from "@supabase/supabase-js";
+import type { Role } from "@/lib/permissions";
+
+export interface Organization {
+  id: string;
+  name: string;
+  role: Role; // the signed-in user's role in this agency
+  retentionDays: number | null; // batches idle for longer are purged; null keeps them
+  allowProvenanceExport: boolean;
+}
+
+export interface AuthState {
+  session: Session | null;
+  user: User | null;
+  loading: boolean; // true until the session and the user's organizations are known
+  organizations: Organization[];
+  organization: Organization | null; // the agency workspace in use
+  selectOrganization: (id: string) => void;
+  refreshOrganizations: () => Promise<void>;
+  signOut: () => Promise<void>;
+}
+
+export const AuthContext = createContext<AuthState | null>(null);
+
+export const useAuth = (): AuthState => {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+};
@@ -14,13 +14,371 @@ export type Database = {
   }
   public: {
     Tables: {
-      [_ in never]: never
+      audit_events: {
+        Row: {
+          action: string
+          batch_id: string | null
+          batch_name: string | null
+          created_at: string
+          details: Json
+          id: number
+          organization_id: string
+          passengers: string | null
+          user_email: string | null
+          user_id: string
+        }
+        Insert: {
+          action: string
+          batch_id?: string | null
+          batch_name?: string | null
+          created_at?: string
+          details?: Json
+          id?: never
+          organization_id: string
+          passengers?: string | null
+          user_email?: string | null
+          user_id?: string
+        }
+        Update: {
+          action?: string
+          batch_id?: string | null
+          batch_name?: string | null
+          created_at?: string
+          details?: Json
+          id?: never
+          organization_id?: string
+          passengers?: string | null
+          user_email?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "audit_events_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      batch_documents: {
+        Row: {
+          batch_id: string
+          created_at: string
+          detected_type: string | null
+          document_type: string | null
+          error: string | null
+          file_name: string
+          id: string
+          last_modified: number
+          mime_type: string
+          position: number
+          size_bytes: number
+          status: string
+          storage_path: string
+        }
+        Insert: {
+          batch_id: string
+          created_at?: string
+          detected_type?: string | null
+          document_type?: string | null
+          error?: string | null
+          file_name: string
+          id?: string
+          last_modified: number
+          mime_type: string
+          position: number
+          size_bytes: number
+          status?: string
+          storage_path: string
+        }
+        Update: {
+          batch_id?: string
+          created_at?: string
+          detected_type?: string | null
+          document_type?: string | null
+          error?: string | null
+          file_name?: string
+          id?: string
+          last_modified?: number
+          mime_type?: string
+          position?: number
+          size_bytes?: number
+          status?: string
+          storage_path?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "batch_documents_batch_id_fkey"
+            columns: ["batch_id"]
+            isOneToOne: false
+            referencedRelation: "batches"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      batches: {
+        Row: {
+          archived: boolean
+          created_at: string
+          created_by: string | null
+          decisions: Json
+          id: string
+          name: string
+          organization_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          archived?: boolean
+          created_at?: string
+          created_by?: string | null
+          decisions?: Json
+          id?: string
+          name: string
+          organization_id?: string | null
+          updated_at?: string
+        }
+        Update: {
+          archived?: boolean
+          created_at?: string
+          created_by?: string | null
+          decisions?: Json
+          id?: string
+          name?: string
+          organization_id?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "batches_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      extraction_cache: {
+        Row: {
+          cache_key: string
+          created_at: string
+          document_type: string
+          model: string | null
+          prompt_version: string
+          records: Json
+        }
+        Insert: {
+          cache_key: string
+          created_at?: string
+          document_type: string
+          model?: string | null
+          prompt_version: string
+          records: Json
+        }
+        Update: {
+          cache_key?: string
+          created_at?: string
+          document_type?: string
+          model?: string | null
+          prompt_version?: string
+          records?: Json
+        }
+        Relationships: []
+      }
+      extractions: {
+        Row: {
+          batch_id: string
+          created_at: string
+          document_id: string
+          id: string
+          page: number
+          prompt_version: string
+          records: Json
+        }
+        Insert: {
+          batch_id: string
+          created_at?: string
+          document_id: string
+          id?: string
+          page: number
+          prompt_version: string
+          records: Json
+        }
+        Update: {
+          batch_id?: string
+          created_at?: string
+          document_id?: string
+          id?: string
+          page?: number
+          prompt_version?: string
+          records?: Json
+        }
+        Relationships: [
+          {
+            foreignKeyName: "extractions_batch_id_fkey"
+            columns: ["batch_id"]
+            isOneToOne: false
+            referencedRelation: "batches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "extractions_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "batch_documents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organization_members: {
+        Row: {
+          created_at: string
+          organization_id: string
+          role: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          organization_id: string
+          role?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          organization_id?: string
+          role?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "organization_members_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organizations: {
+        Row: {
+          allow_provenance_export: boolean
+          created_at: string
+          id: string
+          name: string
+          retention_days: number | null
+        }
+        Insert: {
+          allow_provenance_export?: boolean
+          created_at?: string
+          id?: string
+          name: string
+          retention_days?: number | null
+        }
+        Update: {
+          allow_provenance_export?: boolean
+          created_at?: string
+          id?: string
+          name?: string
+          retention_days?: number | null
+        }
+        Relationships: []
+      }
+      passengers: {
+        Row: {
+          batch_id: string
+          data: Json
+          id: string
+          position: number
+          updated_at: string
+        }
+        Insert: {
+          batch_id: string
+          data: Json
+          id?: string
+          position: number
+          updated_at?: string
+        }
+        Update: {
+          batch_id?: string
+          data?: Json
+          id?: string
+          position?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "passengers_batch_id_fkey"
+            columns: ["batch_id"]
+            isOneToOne: false
+            referencedRelation: "batches"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      platform_admins: {
+        Row: {
+          created_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      add_organization_member: {
+        Args: { email: string; org: string; role?: string }
+        Returns: undefined
+      }
+      can_access_batch: { Args: { batch: string }; Returns: boolean }
+      can_access_batch_path: { Args: { path: string }; Returns: boolean }
+      create_organization: {
+        Args: { name: string }
+        Returns: {
+          allow_provenance_export: boolean
+          created_at: string
+          id: string
+          name: string
+          retention_days: number | null
+        }
+      }
+      has_batch_path_role: {
+        Args: { path: string; roles: string[] }
+        Returns: boolean
+      }
+      has_batch_role: {
+        Args: { batch: string; roles: string[] }
+        Returns: boolean
+      }
+      has_org_role: { Args: { org: string; roles: string[] }; Returns: boolean }
+      is_org_member: { Args: { org: string }; Returns: boolean }
+      is_platform_admin: { Args: never; Returns: boolean }
+      list_organization_members: {
+        Args: { org: string }
+        Returns: {
+          email: string
+          joined_at: string
+          role: string
+          user_id: string
+        }[]
+      }
+      save_passengers: {
+        Args: { batch: string; passenger_rows: Json }
+        Returns: undefined
+      }
+      set_member_role: {
+        Args: { member: string; org: string; role: string }
+        Returns: undefined
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,112 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Json, Tables } from "@/integrations/supabase/types";
+import { extractedColumns } from "./columns";
+
+// The audit trail of passenger data; see the audit log migration. The table stamps user
+// and time itself and refuses changes. Uploads, edits, approvals, merges and splits are
+// recorded by the database as they are written and extractions by the edge function, so
+// the browser only records views and exports.
+
+export type AuditAction =
+  | "batch_opened"
+  | "document_uploaded"
+  | "document_extracted"
+  | "field_edited"
+  | "passenger_approved"
+  | "passengers_merged"
+  | "passenger_split"
+  | "csv_exported";
+
+export const auditActionLabels: Record<AuditAction, string> = {
+  batch_opened: "Opened batch",
+  document_uploaded: "Uploaded document",
+  document_extracted: "Extracted document",
+  field_edited: "Edited field",
+  passenger_approved: "Approval",
+  passengers_merged: "Merged passengers",
+  passenger_split: "Split passenger",
+  csv_exported: "Exported CSV",
+};
+
+export type AuditEventRow = Tables<"audit_events">;
+
+// The actions the browser may record itself
+export type ClientAuditAction = Extract<AuditAction, "batch_opened" | "csv_exported">;
+
+export interface AuditEventInput {
+  organizationId: string;
+  batchId?: string | null;
+  action: ClientAuditAction;
+  passengers?: string[];
+  details?: Record<string, unknown>;
+}
+
+export interface AuditFilters {
+  userId?: string;
+  batchId?: string;
+  passenger?: string; // part of a passenger name
+}
+
+export const AUDIT_PAGE_SIZE = 100;
+
+export const recordAuditEvent = async ({ organizationId, batchId, action, passengers = [], details = {} }: AuditEventInput): Promise<void> => {
+  const { error } = await supabase.from("audit_events").insert({
+    organization_id: organizationId,
+    batch_id: batchId ?? null,
+    action,
+    passengers: passengers.filter(Boolean).join(", ") || null,
+    details: details as Json,
+  });
+  if (error) throw new Error(error.message);
+};
+
+// Newest first; `limit` grows as the viewer loads more
+export const listAuditEvents = async (organizationId: string, filters: AuditFilters, limit: number): Promise<AuditEventRow[]> => {
+  let query = supabase
+    .from("audit_events")
+    .select("*")
+    .eq("organization_id", organizationId)
+    .order("created_at", { ascending: false })
+    .limit(limit);
+  if (filters.userId) query = query.eq("user_id", filters.userId);
+  if (filters.batchId) query = query.eq("batch_id", filters.batchId);
+  if (filters.passenger) query = query.ilike("passengers", `%${filters.passenger.replace(/[%_\\]/g, "\\$&")}%`);
+
+  const { data, error } = await query;
+  if (error) throw new Error(error.message);
+  return data;
+};
+
+const text = (value: unknown): string => (value === undefined || value === null || value === "" ? "(empty)" : String(value));
+
+// One line of detail per event for the viewer
+export const describeAuditEvent = (event: AuditEventRow): string => {
+  const details = (event.details ?? {}) as Record<string, unknown>;
+  switch (event.action as AuditAction) {
+    case "document_uploaded":
+      return `${details.fileName} (${Math.round(Number(details.sizeBytes) / 1024)} KB)`;
+    case "document_extracted":
+      return [
+        `${details.fileName ?? "page"} as ${details.documentType}`,
+        `model ${details.model ?? "unknown"}`,
+        `prompt ${details.promptVersion}`,
+        details.cached ? "from cache" : null,
+      ].filter(Boolean).join(", ");
+    case "field_edited": {
+      const label = extractedColumns.find((c) => c.key === details.field)?.label ?? details.field;
+      // Values are removed once the agency's retention period has passed
+      const change = details.redacted ? "values removed after the retention period" : `${text(details.oldValue)} -> ${text(details.newValue)}`;
+      return `${label}: ${change}${details.fromConflict ? " (conflict resolved)" : ""}`;
+    }
+    case "passenger_approved":
+      return details.approved ? "Approved" : "Approval withdrawn";
+    case "passengers_merged":
+      return `${details.rowCount} rows merged into one passenger`;
+    case "passenger_split":
+      return `Split into ${details.rowCount} rows`;
+    case "csv_exported":
+      return `${details.rowCount} passenger(s)${details.includeProvenance ? " with provenance sheet" : ""}`;
+    default:
+      return "";
+  }
+};
@@ -0,0 +1,110 @@
+import { supabase } from "@/integrations/supabase/client";
+import { ExtractionError, FunctionErrorBody } from "@/lib/functionErrors";
+import type { CachedExtraction } from "@/lib/extractionCache";
+
+// One page sent to the batch endpoint; `id` comes back on its result line
+export interface BatchPage {
+  id: string;
+  image?: string;
+  signed?: CachedExtraction; // a browser cache hit, sent instead of the image so the function can store it
+  fileName: string;
+  documentType: string;
+  force?: boolean; // skip the server-side cache
+  documentId?: string; // the page's document row, under which the function stores its records
+  page?: number;
+}
+
+// Lines streamed back by extract-document-data for a `documents` request
+export type BatchEvent =
+  | { type: "result"; id: string; records: Record<string, unknown>[]; cached: boolean; model: string | null; signature: string }
+  | ({ type: "error"; id: string; status: number } & FunctionErrorBody)
+  | { type: "done"; count: number };
+
+// Well under the function's own limit of 20 documents, so each streamed batch finishes quickly;
+// the byte budget keeps request bodies well under the gateway limit
+export const MAX_BATCH_PAGES = 8;
+const MAX_BATCH_CHARS = 6 * 1024 * 1024;
+
+/**
+ * Split pages into batches of at most MAX_BATCH_PAGES pages and MAX_BATCH_CHARS of
+ * base64, keeping their order. A single oversized page still gets a batch of its own.
+ */
+export const planBatches = (pages: BatchPage[]): BatchPage[][] => {
+  const batches: BatchPage[][] = [];
+  let current: BatchPage[] = [];
+  let size = 0;
+
+  for (const page of pages) {
+    const pageSize = page.image?.length ?? 0;
+    if (current.length > 0 && (current.length >= MAX_BATCH_PAGES || size + pageSize > MAX_BATCH_CHARS)) {
+      batches.push(current);
+      current = [];
+      size = 0;
+    }
+    current.push(page);
+    size += pageSize;
+  }
+  if (current.length > 0) batches.push(current);
+  return batches;
+};
+
+/**
+ * Send one batch on behalf of an agency (the function checks the caller's role there,
+ * stores each page's records under its document and records each extraction against the
+ * batch) and call `onEvent` for each NDJSON line as it arrives. supabase-js buffers
+ * function responses, so this uses fetch directly to read the stream.
+ * Throws an ExtractionError when the request as a whole is rejected or the stream
+ * ends before every page was reported.
+ */
+export const streamBatch = async (
+  { organizationId, batchId }: { organizationId: string; batchId?: string },
+  pages: BatchPage[],
+  onEvent: (event: BatchEvent) => void,
+): Promise<void> => {
+  const { data: { session } } = await supabase.auth.getSession();
+  const publishableKey = import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY;
+
+  const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/extract-document-data`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      apikey: publishableKey,
+      Authorization: `Bearer ${session?.access_token ?? publishableKey}`,
+    },
+    body: JSON.stringify({ organizationId, batchId, documents: pages }),
+  });
+
+  if (!response.ok || !response.body) {
+    const body: Partial<FunctionErrorBody> = await response.json().catch(() => ({}));
+    throw new ExtractionError(body.error || `Batch request failed with status ${response.status}`, {
+      status: response.status,
+      code: body.code,
+      details: body.details,
+    });
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffered = "";
+  let finished = false;
+
+  const emit = (line: string) => {
+    if (!line.trim()) return;
+    const event: BatchEvent = JSON.parse(line);
+    if (event.type === "done") finished = true;
+    onEvent(event);
+  };
+
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffered += value;
+    const lines = buffered.split("\n");
+    buffered = lines.pop() ?? "";
+    lines.forEach(emit);
+  }
+  emit(buffered);
+
+  if (!finished) {
+    throw new ExtractionError("The connection closed before every document was processed", { code: "STREAM_INTERRUPTED" });
+  }
+};
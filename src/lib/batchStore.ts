@@ -0,0 +1,165 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Json, Tables } from "@/integrations/supabase/types";
+import type { DocumentStatus } from "@/components/DocumentPreview";
+import type { DocumentType } from "@/components/DocumentUpload";
+import type { ExtractedData } from "@/components/ExtractedDataTable";
+import type { ConsolidationDecisions } from "@/lib/consolidation";
+
+// Reads and writes of saved batches: the rows in Postgres and the original uploads in Storage
+
+export const DOCUMENTS_BUCKET = "batch-documents";
+
+export type BatchRow = Tables<"batches">;
+export type BatchDocumentRow = Tables<"batch_documents">;
+
+export interface BatchSummary extends BatchRow {
+  documentCount: number;
+  passengerCount: number;
+}
+
+// Everything needed to put a saved batch back on screen
+export interface SavedBatch {
+  batch: BatchRow;
+  documents: { row: BatchDocumentRow; file: File | null; pages: Record<string, unknown>[][] }[];
+  passengers: ExtractedData[];
+}
+
+const check = <T>({ data, error }: { data: T; error: { message: string } | null }): T => {
+  if (error) throw new Error(error.message);
+  return data;
+};
+
+export const defaultBatchName = (date = new Date()): string =>
+  `Batch ${date.toLocaleDateString("en-GB", { day: "2-digit", month: "short", year: "numeric" })} ${date.toLocaleTimeString("en-GB", { hour: "2-digit", minute: "2-digit" })}`;
+
+export const listBatches = async (organizationId: string): Promise<BatchSummary[]> => {
+  const rows = check(await supabase
+    .from("batches")
+    .select("*, batch_documents(count), passengers(count)")
+    .eq("organization_id", organizationId)
+    .order("updated_at", { ascending: false }));
+
+  return rows.map(({ batch_documents, passengers, ...batch }) => ({
+    ...batch,
+    documentCount: batch_documents[0]?.count ?? 0,
+    passengerCount: passengers[0]?.count ?? 0,
+  }));
+};
+
+export const createBatch = async (organizationId: string, name = defaultBatchName()): Promise<BatchRow> =>
+  check(await supabase.from("batches").insert({ name, organization_id: organizationId }).select().single());
+
+export const renameBatch = async (id: string, name: string): Promise<void> => {
+  check(await supabase.from("batches").update({ name }).eq("id", id));
+};
+
+export const setBatchArchived = async (id: string, archived: boolean): Promise<void> => {
+  check(await supabase.from("batches").update({ archived }).eq("id", id));
+};
+
+// Rows cascade from the batch; Storage has no foreign keys, so the files go first
+export const deleteBatch = async (id: string): Promise<void> => {
+  const documents = check(await supabase.from("batch_documents").select("storage_path").eq("batch_id", id));
+  if (documents.length > 0) {
+    check(await supabase.storage.from(DOCUMENTS_BUCKET).remove(documents.map((d) => d.storage_path)));
+  }
+  check(await supabase.from("batches").delete().eq("id", id));
+};
+
+export const saveDecisions = async (batchId: string, decisions: ConsolidationDecisions): Promise<void> => {
+  check(await supabase.from("batches").update({ decisions: decisions as unknown as Json }).eq("id", batchId));
+};
+
+// Storage rejects keys with non-ASCII characters, `#`, `%` and the like, so only a plain
+// extension is kept from the file name; the row keeps the name itself
+const storageExtension = (fileName: string): string => /\.[a-z0-9]{1,10}$/i.exec(fileName)?.[0].toLowerCase() ?? "";
+
+/**
+ * Upload an original file and record it in the batch. Returns the document row id,
+ * which the other document calls take.
+ */
+export const uploadDocument = async (batchId: string, file: File, position: number): Promise<string> => {
+  const id = crypto.randomUUID();
+  const storagePath = `${batchId}/${id}${storageExtension(file.name)}`;
+  check(await supabase.storage.from(DOCUMENTS_BUCKET).upload(storagePath, file, { contentType: file.type }));
+  check(await supabase.from("batch_documents").insert({
+    id,
+    batch_id: batchId,
+    position,
+    file_name: file.name,
+    mime_type: file.type,
+    size_bytes: file.size,
+    last_modified: file.lastModified,
+    storage_path: storagePath,
+  }));
+  return id;
+};
+
+export interface DocumentUpdate {
+  documentType?: DocumentType | null;
+  detectedType?: DocumentType | null;
+  status?: DocumentStatus;
+  error?: string | null;
+}
+
+export const updateDocumentRow = async (id: string, update: DocumentUpdate): Promise<void> => {
+  const row: Partial<BatchDocumentRow> = {};
+  if ("documentType" in update) row.document_type = update.documentType;
+  if ("detectedType" in update) row.detected_type = update.detectedType;
+  if ("status" in update) row.status = update.status;
+  if ("error" in update) row.error = update.error ?? null;
+  else if (update.status && update.status !== "failed") row.error = null;
+  if (Object.keys(row).length === 0) return;
+  check(await supabase.from("batch_documents").update(row).eq("id", id));
+};
+
+export const deleteDocument = async (id: string): Promise<void> => {
+  const { storage_path } = check(await supabase.from("batch_documents").delete().eq("id", id).select("storage_path").single());
+  check(await supabase.storage.from(DOCUMENTS_BUCKET).remove([storage_path]));
+};
+
+// Page images are left out: they can be rebuilt from the originals and would bloat every row
+const withoutImages = (passenger: ExtractedData): ExtractedData => ({
+  ...passenger,
+  sources: passenger.sources?.map((source) => ({ ...source, imageUrl: "" })),
+});
+
+// One RPC replaces the snapshot so it can check that only reviewers change edits and approvals
+export const savePassengers = async (batchId: string, passengers: ExtractedData[]): Promise<void> => {
+  check(await supabase.rpc("save_passengers", {
+    batch: batchId,
+    passenger_rows: passengers.map(withoutImages) as unknown as Json,
+  }));
+};
+
+const downloadDocument = async (row: BatchDocumentRow): Promise<File | null> => {
+  const { data, error } = await supabase.storage.from(DOCUMENTS_BUCKET).download(row.storage_path);
+  if (error) {
+    console.error(`Could not download ${row.file_name}:`, error.message);
+    return null;
+  }
+  return new File([data], row.file_name, { type: row.mime_type, lastModified: row.last_modified });
+};
+
+export const loadBatch = async (batchId: string): Promise<SavedBatch> => {
+  const [batch, documentRows, extractionRows, passengerRows] = await Promise.all([
+    supabase.from("batches").select("*").eq("id", batchId).single().then(check),
+    supabase.from("batch_documents").select("*").eq("batch_id", batchId).order("position").then(check),
+    supabase.from("extractions").select("document_id, page, records").eq("batch_id", batchId).order("page").then(check),
+    supabase.from("passengers").select("data").eq("batch_id", batchId).order("position").then(check),
+  ]);
+
+  const documents = await Promise.all(documentRows.map(async (row) => ({
+    row,
+    file: await downloadDocument(row),
+    pages: extractionRows
+      .filter((extraction) => extraction.document_id === row.id)
+      .map((extraction) => extraction.records as Record<string, unknown>[]),
+  })));
+
+  return {
+    batch,
+    documents,
+    passengers: passengerRows.map((row) => row.data as unknown as ExtractedData),
+  };
+};
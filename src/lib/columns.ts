@@ -0,0 +1,32 @@
+import type { ExtractedField } from "@/components/ExtractedDataTable";
+
+export interface ExtractedColumn {
+  key: ExtractedField;
+  label: string;
+  isDate?: boolean;
+  optional?: boolean; // shown as "-" when empty
+}
+
+// Table and CSV column order
+export const extractedColumns: ExtractedColumn[] = [
+  { key: "name", label: "Name" },
+  { key: "passportNumber", label: "Passport Number" },
+  { key: "dateOfBirth", label: "Date of Birth", isDate: true },
+  { key: "nationality", label: "Nationality" },
+  { key: "passportIssueDate", label: "Passport Issue Date", isDate: true, optional: true },
+  { key: "expiryDate", label: "Passport Expiry Date", isDate: true },
+  { key: "visaType", label: "Visa Type", optional: true },
+  { key: "visaExpiryDate", label: "Visa Expiry Date", isDate: true, optional: true },
+  { key: "flightNumber", label: "Flight Number", optional: true },
+  { key: "bookingReference", label: "Booking Reference", optional: true },
+  { key: "ticketNumber", label: "Ticket Number", optional: true },
+  { key: "departure", label: "Departure", optional: true },
+  { key: "arrival", label: "Arrival", optional: true },
+  { key: "transitStop", label: "Transit Stop", optional: true },
+  { key: "departureDate", label: "Departure Date", isDate: true, optional: true },
+  { key: "departureTime", label: "Departure Time", optional: true },
+  { key: "arrivalDate", label: "Arrival Date", isDate: true, optional: true },
+  { key: "arrivalTime", label: "Arrival Time", optional: true },
+  { key: "seatNumber", label: "Seat Number", optional: true },
+  { key: "inflightMeal", label: "Inflight Meal", optional: true },
+];
@@ -0,0 +1,27 @@
+import type { ExtractedData, FieldConfidence } from "@/components/ExtractedDataTable";
+import { getTravelStatus } from "@/lib/travelRules";
+import { LOW_CONFIDENCE_THRESHOLD } from "../../supabase/functions/_shared/confidence";
+
+export const isLowConfidence = (confidence: FieldConfidence | undefined): boolean => {
+  return !!confidence && confidence.score < LOW_CONFIDENCE_THRESHOLD;
+};
+
+export const getUncertainFields = (row: ExtractedData): string[] => {
+  if (!row.confidence) return [];
+  return Object.entries(row.confidence)
+    .filter(([field, confidence]) =>
+      row[field as keyof ExtractedData] &&
+      !row.editedFields?.includes(field) &&
+      isLowConfidence(confidence)
+    )
+    .map(([field]) => field);
+};
+
+export const needsReview = (row: ExtractedData): boolean => {
+  return (
+    getUncertainFields(row).length > 0 ||
+    (row.mrzWarnings?.length ?? 0) > 0 ||
+    (row.conflicts?.length ?? 0) > 0 ||
+    getTravelStatus(row) === "error"
+  );
+};
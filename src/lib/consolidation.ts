@@ -0,0 +1,463 @@
+import type {
+  ConflictCandidate,
+  ExtractedData,
+  ExtractedField,
+  FieldConflict,
+} from "@/components/ExtractedDataTable";
+import { extractedColumns } from "@/lib/columns";
+import { mergeSegments } from "@/lib/itinerary";
+import { summarizeSegments } from "../../supabase/functions/_shared/itinerary";
+import { sameCountry } from "../../supabase/functions/_shared/countries";
+
+// Identity fields that should agree across every document of one passenger.
+// Expiry dates are left out because passports and visas each carry their own.
+const CONFLICT_FIELDS: ExtractedField[] = ['passportNumber', 'dateOfBirth', 'nationality', 'passportIssueDate'];
+
+// Reported by the extraction function for a passport page without a machine readable zone
+const MRZ_NOT_FOUND = 'MRZ not found on document';
+
+const normalizeForComparison = (value: string): string => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const valuesAgree = (field: ExtractedField, a: string, b: string): boolean => {
+  // Nationality is printed as "Pakistan", "Pakistani" or "PAK" depending on the document,
+  // so compare the country codes they stand for
+  if (field === 'nationality') return sameCountry(a, b);
+  return normalizeForComparison(a) === normalizeForComparison(b);
+};
+
+const toCandidate = (row: ExtractedData, field: ExtractedField): ConflictCandidate => {
+  const provenance = row.provenance?.[field];
+  return {
+    value: row[field],
+    fileName: provenance?.fileName || '',
+    documentType: provenance?.documentType || '',
+    page: provenance?.page || 1,
+  };
+};
+
+/**
+ * Record every identity field on which the incoming document disagrees with the
+ * passenger it is being merged into. Conflicts already on the passenger are carried
+ * forward and gain the new candidate value.
+ */
+const detectConflicts = (existing: ExtractedData, item: ExtractedData): FieldConflict[] => {
+  const conflicts = (existing.conflicts || []).map(c => ({ ...c, candidates: [...c.candidates] }));
+
+  for (const field of CONFLICT_FIELDS) {
+    const existingValue = existing[field];
+    const itemValue = item[field];
+    if (!existingValue || !itemValue) continue;
+
+    const conflict = conflicts.find(c => c.field === field);
+    if (conflict) {
+      if (!conflict.candidates.some(c => valuesAgree(field, c.value, itemValue))) {
+        conflict.candidates.push(toCandidate(item, field));
+      }
+    } else if (!valuesAgree(field, existingValue, itemValue)) {
+      conflicts.push({ field, candidates: [toCandidate(existing, field), toCandidate(item, field)] });
+    }
+  }
+
+  return conflicts;
+};
+
+/**
+ * After several records have been merged into one, keep the per-field metadata
+ * (confidence, provenance) of whichever source actually supplied each field's value.
+ */
+const mergeFieldMetadata = <T>(
+  merged: ExtractedData,
+  sources: ExtractedData[],
+  getMetadata: (row: ExtractedData) => Record<string, T> | undefined,
+): Record<string, T> => {
+  const result: Record<string, T> = {};
+
+  for (const [field, value] of Object.entries(merged)) {
+    if (!value || typeof value !== "string") continue;
+
+    const source = sources.find(
+      (s) => s[field as keyof ExtractedData] === value && getMetadata(s)?.[field]
+    );
+    if (source) {
+      result[field] = getMetadata(source)[field];
+    }
+  }
+
+  return result;
+};
+
+// Extract all possible name variants from a raw name (handles slash-separated names)
+export const extractNameVariants = (name: string): string[] => {
+  if (!name) return [];
+  
+  const variants: string[] = [];
+  const honorifics = ['mr', 'mrs', 'ms', 'miss', 'dr', 'prof', 'sir', 'madam'];
+  
+  // Handle slash-separated names (e.g., "MASOODUL HASAN/TAZAIN FATIMA MRS")
+  const slashParts = name.split('/');
+  
+  for (const part of slashParts) {
+    let cleanPart = part;
+    
+    // Handle "?" separator if present
+    if (cleanPart.includes('?')) {
+      const qParts = cleanPart.split('?');
+      cleanPart = qParts[1] || qParts[0];
+    }
+    
+    // Normalize: lowercase, remove non-letters except spaces
+    const normalized = cleanPart
+      .toLowerCase()
+      .replace(/[^a-z\s]/g, '')
+      .replace(/\s+/g, ' ')
+      .trim();
+    
+    // Remove honorifics from beginning and end
+    const words = normalized.split(' ').filter(w => w.length > 0 && !honorifics.includes(w));
+    
+    if (words.length >= 1) {
+      variants.push(words.join(' '));
+    }
+  }
+  
+  return variants;
+};
+
+export const normalizeName = (name: string): string => {
+  const variants = extractNameVariants(name);
+  return variants[0] || '';
+};
+
+export const namesMatch = (name1: string, name2: string): boolean => {
+  const variants1 = extractNameVariants(name1);
+  const variants2 = extractNameVariants(name2);
+  
+  // Handle empty names
+  if (variants1.length === 0 || variants2.length === 0) return false;
+  
+  // Check all combinations of variants
+  for (const v1 of variants1) {
+    for (const v2 of variants2) {
+      if (v1 === v2) return true;
+      
+      const words1 = v1.split(' ').filter(w => w.length > 0);
+      const words2 = v2.split(' ').filter(w => w.length > 0);
+      
+      if (words1.length < 2 || words2.length < 2) continue;
+      
+      // Check if same words in different order (e.g., "FATIMA ANEES" vs "ANEES FATIMA")
+      const sorted1 = [...words1].sort().join(' ');
+      const sorted2 = [...words2].sort().join(' ');
+      
+      if (sorted1 === sorted2) return true;
+      
+      // Check for significant overlap (at least 2 words must match)
+      const commonWords = words1.filter(word => words2.includes(word));
+      if (commonWords.length >= 2) return true;
+    }
+  }
+  
+  return false;
+};
+
+export const findPassengerIndex = (
+  passengers: ExtractedData[],
+  item: ExtractedData,
+  canMerge: (passenger: ExtractedData) => boolean = () => true,
+): number => {
+  // Try to find existing passenger by passport number (most reliable)
+  let existingIndex = -1;
+  const itemPassport = item.passportNumber?.trim();
+  
+  if (itemPassport) {
+    existingIndex = passengers.findIndex(p => 
+      canMerge(p) && p.passportNumber?.trim() === itemPassport
+    );
+  }
+  
+  // If no passport match, try name matching - BUT only if current item has no passport number
+  // or if existing passenger has no passport number (prevents merging people with different passports)
+  if (existingIndex === -1 && item.name?.trim()) {
+    existingIndex = passengers.findIndex(p => {
+      if (!canMerge(p)) return false;
+      
+      // If both have passport numbers and they're different, they're DEFINITELY different people
+      const existingPassport = p.passportNumber?.trim();
+      if (itemPassport && existingPassport && itemPassport !== existingPassport) {
+        return false; // Different passport numbers = different people
+      }
+      return p.name && namesMatch(p.name, item.name);
+    });
+  }
+  
+  return existingIndex;
+};
+
+export const hasConflicts = (row: ExtractedData): boolean => (row.conflicts?.length ?? 0) > 0;
+
+// Combine the records of two documents that belong to the same passenger
+const mergeRecords = (existing: ExtractedData, item: ExtractedData): ExtractedData => {
+  const merged: ExtractedData = {
+    // Prefer passport name over flight ticket name (cleaner format)
+    name: existing.passportNumber ? existing.name : (item.passportNumber ? item.name : existing.name),
+    passportNumber: existing.passportNumber || item.passportNumber,
+    dateOfBirth: existing.dateOfBirth || item.dateOfBirth,
+    nationality: existing.nationality || item.nationality,
+    passportIssueDate: existing.passportIssueDate || item.passportIssueDate,
+    expiryDate: existing.expiryDate || item.expiryDate,
+    visaType: item.visaType || existing.visaType,
+    visaExpiryDate: item.visaExpiryDate || existing.visaExpiryDate,
+    flightNumber: item.flightNumber || existing.flightNumber,
+    bookingReference: item.bookingReference || existing.bookingReference,
+    ticketNumber: item.ticketNumber || existing.ticketNumber,
+    departure: item.departure || existing.departure,
+    arrival: item.arrival || existing.arrival,
+    transitStop: item.transitStop || existing.transitStop,
+    departureDate: item.departureDate || existing.departureDate,
+    departureTime: item.departureTime || existing.departureTime,
+    arrivalDate: item.arrivalDate || existing.arrivalDate,
+    arrivalTime: item.arrivalTime || existing.arrivalTime,
+    seatNumber: item.seatNumber || existing.seatNumber,
+    inflightMeal: item.inflightMeal || existing.inflightMeal,
+    mrzVerified: existing.mrzVerified || item.mrzVerified,
+    mrzWarnings: [...(existing.mrzWarnings || []), ...(item.mrzWarnings || [])],
+    sources: [...(existing.sources || []), ...(item.sources || [])],
+    conflicts: detectConflicts(existing, item),
+    documentIds: [...(existing.documentIds || []), ...(item.documentIds || [])],
+    segments: mergeSegments(existing.segments, item.segments),
+  };
+  // Once both documents carry segments, the flight fields describe the combined itinerary
+  if (existing.segments?.length && item.segments?.length) {
+    Object.assign(merged, summarizeSegments(merged.segments));
+  }
+  merged.confidence = mergeFieldMetadata(merged, [existing, item], p => p.confidence);
+  merged.provenance = mergeFieldMetadata(merged, [existing, item], p => p.provenance);
+  return merged;
+};
+
+/**
+ * Merge and split decisions made by the user, as pairs of document ids.
+ * `mustLink` pairs always end up on the same passenger; `cannotLink` pairs never do.
+ */
+export interface ConsolidationDecisions {
+  mustLink: [string, string][];
+  cannotLink: [string, string][];
+}
+
+export const EMPTY_DECISIONS: ConsolidationDecisions = { mustLink: [], cannotLink: [] };
+
+const pairTouches = ([x, y]: [string, string], a: ExtractedData, b: ExtractedData): boolean => {
+  const aIds = a.documentIds || [];
+  const bIds = b.documentIds || [];
+  return (aIds.includes(x) && bIds.includes(y)) || (aIds.includes(y) && bIds.includes(x));
+};
+
+// Pre-merge documents the user has joined by hand, keeping the original document order
+const applyMustLinks = (dataArray: ExtractedData[], mustLink: [string, string][]): ExtractedData[] => {
+  const groups: ExtractedData[] = [];
+  
+  for (const item of dataArray) {
+    const linked = groups.filter(g => mustLink.some(pair => pairTouches(pair, g, item)));
+    if (linked.length === 0) {
+      groups.push({ ...item });
+      continue;
+    }
+    
+    // The item may bridge several groups formed so far; fold them all into the first
+    const [target, ...rest] = linked;
+    let merged = mergeRecords(target, item);
+    for (const other of rest) {
+      merged = mergeRecords(merged, other);
+      groups.splice(groups.indexOf(other), 1);
+    }
+    groups[groups.indexOf(target)] = merged;
+  }
+  
+  return groups;
+};
+
+export const consolidateData = (
+  dataArray: ExtractedData[],
+  decisions: ConsolidationDecisions = EMPTY_DECISIONS,
+): ExtractedData[] => {
+  const passengers: ExtractedData[] = [];
+  
+  applyMustLinks(dataArray, decisions.mustLink).forEach(item => {
+    const existingIndex = findPassengerIndex(
+      passengers,
+      item,
+      p => !decisions.cannotLink.some(pair => pairTouches(pair, p, item))
+    );
+    
+    if (existingIndex !== -1) {
+      // Merge with existing passenger
+      passengers[existingIndex] = mergeRecords(passengers[existingIndex], item);
+    } else {
+      // New passenger
+      passengers.push({ ...item });
+    }
+  });
+  
+  return passengers;
+};
+
+/**
+ * Record that the documents of the given passengers belong to one person.
+ * Any earlier split between them is forgotten.
+ */
+export const recordMerge = (
+  decisions: ConsolidationDecisions,
+  passengers: ExtractedData[],
+): ConsolidationDecisions => {
+  const ids = passengers.flatMap(p => p.documentIds || []);
+  const chain: [string, string][] = ids.slice(1).map((id, i) => [ids[i], id]);
+  
+  return {
+    mustLink: [...decisions.mustLink, ...chain],
+    cannotLink: decisions.cannotLink.filter(([x, y]) => !(ids.includes(x) && ids.includes(y))),
+  };
+};
+
+/**
+ * Record that every document of a passenger belongs to a different person.
+ * Any earlier merge between them is forgotten.
+ */
+export const recordSplit = (
+  decisions: ConsolidationDecisions,
+  passenger: ExtractedData,
+): ConsolidationDecisions => {
+  const ids = passenger.documentIds || [];
+  const pairs: [string, string][] = [];
+  for (let i = 0; i < ids.length; i++) {
+    for (let j = i + 1; j < ids.length; j++) {
+      pairs.push([ids[i], ids[j]]);
+    }
+  }
+  
+  return {
+    mustLink: decisions.mustLink.filter(([x, y]) => !(ids.includes(x) && ids.includes(y))),
+    cannotLink: [...decisions.cannotLink, ...pairs],
+  };
+};
+
+const sameDocuments = (a: ExtractedData, b: ExtractedData): boolean =>
+  (a.documentIds || []).length === (b.documentIds || []).length &&
+  (a.documentIds || []).every(id => b.documentIds?.includes(id));
+
+// Re-apply manual corrections from a previous run onto freshly consolidated passengers.
+// An approval is kept only while the passenger is built from exactly the documents that were approved.
+export const preserveManualEdits = (passengers: ExtractedData[], previous: ExtractedData[]): ExtractedData[] => {
+  const result = passengers.map(p => ({ ...p }));
+  
+  for (const edited of previous) {
+    if (!edited.editedFields?.length && !edited.approval) continue;
+    
+    // Same source documents first, then the usual passport/name matching
+    let index = result.findIndex(p =>
+      p.documentIds?.some(id => edited.documentIds?.includes(id))
+    );
+    if (index === -1) index = findPassengerIndex(result, edited);
+    if (index === -1) continue;
+    
+    const target = result[index];
+    if (edited.approval && sameDocuments(target, edited)) target.approval = edited.approval;
+    if (!edited.editedFields?.length) continue;
+    
+    const confidence = { ...(target.confidence || {}) };
+    for (const field of edited.editedFields) {
+      (target as Record<string, unknown>)[field] = edited[field as ExtractedField];
+      delete confidence[field];
+    }
+    target.confidence = confidence;
+    // A field the user already settled by hand is no longer in conflict
+    target.conflicts = (target.conflicts || []).filter(c => !edited.editedFields.includes(c.field));
+    target.editedFields = Array.from(new Set([...(target.editedFields || []), ...edited.editedFields]));
+  }
+  
+  return result;
+};
+
+// Merge the per-page results of one multi-page file into a single record.
+// Earlier pages win for identity fields; MRZ warnings from every page are kept.
+export const mergePageResults = (pages: ExtractedData[]): ExtractedData => {
+  const merged = { ...pages[0] };
+  
+  for (const page of pages.slice(1)) {
+    for (const [key, value] of Object.entries(page)) {
+      if (['mrzWarnings', 'mrzVerified', 'confidence', 'provenance', 'sources', 'conflicts', 'documentIds', 'segments'].includes(key)) continue;
+      if (value && !merged[key as keyof ExtractedData]) {
+        (merged as Record<string, unknown>)[key] = value;
+      }
+    }
+  }
+  
+  merged.mrzVerified = pages.some(p => p.mrzVerified);
+  // Only the data page of a passport carries the MRZ, so the other pages' "not found"
+  // says nothing about the document unless no page had one
+  const mrzPages = pages.filter(p => !p.mrzWarnings?.includes(MRZ_NOT_FOUND));
+  merged.mrzWarnings = mrzPages.length < pages.length && !mrzPages.some(p => p.mrzVerified || p.mrzWarnings?.length)
+    ? [MRZ_NOT_FOUND]
+    : mrzPages.flatMap(p => p.mrzWarnings || []);
+  merged.confidence = mergeFieldMetadata(merged, pages, p => p.confidence);
+  merged.provenance = mergeFieldMetadata(merged, pages, p => p.provenance);
+  merged.sources = pages.flatMap(p => p.sources || []);
+  merged.segments = mergeSegments(...pages.map(p => p.segments));
+  if (pages.filter(p => p.segments?.length).length > 1) {
+    Object.assign(merged, summarizeSegments(merged.segments));
+  }
+  
+  return merged;
+};
+
+/**
+ * Merge the per-page records of one uploaded file. Most documents describe a single
+ * person and all pages collapse into one record; group bookings list several
+ * passengers, so their records are grouped by name across pages instead.
+ */
+export const mergeFileResults = (pages: ExtractedData[][]): ExtractedData[] => {
+  const records = pages.flat();
+  if (records.length === 0) return [];
+  if (pages.every(page => page.length <= 1)) return [mergePageResults(records)];
+  
+  const groups: ExtractedData[][] = [];
+  for (const record of records) {
+    const group = groups.find(g => g.some(r => r.name && record.name && namesMatch(r.name, record.name)));
+    if (group) {
+      group.push(record);
+    } else {
+      groups.push([record]);
+    }
+  }
+  
+  return groups.map(mergePageResults);
+};
+
+export interface PassengerChanges {
+  added: ExtractedData[];
+  changed: ExtractedData[];
+}
+
+/**
+ * Passengers in `after` that are new, or that gained a document or a different field
+ * value, compared with `before`. Matches rows like preserveManualEdits does: shared
+ * source documents first, then passport number and name.
+ */
+export const diffPassengers = (before: ExtractedData[], after: ExtractedData[]): PassengerChanges => {
+  const changes: PassengerChanges = { added: [], changed: [] };
+  
+  for (const passenger of after) {
+    let index = before.findIndex(p => p.documentIds?.some(id => passenger.documentIds?.includes(id)));
+    if (index === -1) index = findPassengerIndex(before, passenger);
+    if (index === -1) {
+      changes.added.push(passenger);
+      continue;
+    }
+    
+    const previous = before[index];
+    const gainedDocument = (passenger.documentIds || []).some(id => !previous.documentIds?.includes(id));
+    const fieldChanged = extractedColumns.some(({ key }) => (previous[key] || "") !== (passenger[key] || ""));
+    if (gainedDocument || fieldChanged) changes.changed.push(passenger);
+  }
+  
+  return changes;
+};
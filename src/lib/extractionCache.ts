@@ -0,0 +1,81 @@
+import { extractionCacheKey, sha256Hex } from "../../supabase/functions/_shared/extractionCache";
+
+// Page extraction results kept in IndexedDB, keyed by prompt version, document type and
+// image hash, so re-processing an unchanged page skips the model. The entries hold passport
+// data on this machine, outside the agency's retention period and the purge that enforces
+// it, so they expire after MAX_AGE_MS and are cleared on sign-out.
+
+const DB_NAME = "docuscan";
+const STORE = "extraction-results";
+const MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+// What the function answered for a page, the model that answered and the function's
+// signature over both, which lets it store a cache hit in the batch without the image
+export interface CachedExtraction {
+  records: Record<string, unknown>[];
+  model: string | null;
+  signature: string;
+}
+
+interface CachedPage extends CachedExtraction {
+  key: string;
+  storedAt: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  dbPromise ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE, { keyPath: "key" });
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  return dbPromise;
+};
+
+const inStore = <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> =>
+  openDb().then((db) => new Promise((resolve, reject) => {
+    const request = action(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  }));
+
+export const pageCacheKey = async (image: string, documentType: string): Promise<string> =>
+  extractionCacheKey(await sha256Hex(image), documentType);
+
+/**
+ * Cached records for a page, or null on a miss. Expired entries are deleted and miss.
+ * Private browsing and other storage failures count as misses, so the cache can only
+ * ever save work.
+ */
+export const getCachedPage = async (key: string): Promise<CachedExtraction | null> => {
+  try {
+    const entry = await inStore<CachedPage | undefined>("readonly", (store) => store.get(key));
+    if (entry && !(Date.now() - entry.storedAt < MAX_AGE_MS)) {
+      await inStore("readwrite", (store) => store.delete(key));
+      return null;
+    }
+    // Entries stored before results were signed cannot be stored in a batch, so they miss
+    return entry?.signature ? { records: entry.records, model: entry.model ?? null, signature: entry.signature } : null;
+  } catch (error) {
+    console.warn("Extraction cache read failed:", error);
+    return null;
+  }
+};
+
+export const putCachedPage = async (key: string, { records, model, signature }: CachedExtraction): Promise<void> => {
+  try {
+    await inStore("readwrite", (store) => store.put({ key, records, model, signature, storedAt: Date.now() } satisfies CachedPage));
+  } catch (error) {
+    console.warn("Extraction cache write failed:", error);
+  }
+};
+
+export const clearCachedPages = async (): Promise<void> => {
+  try {
+    await inStore("readwrite", (store) => store.clear());
+  } catch (error) {
+    console.warn("Clearing the extraction cache failed:", error);
+  }
+};
@@ -0,0 +1,77 @@
+import type { ExtractedData } from "@/components/ExtractedDataTable";
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+export const DATE_FIELDS: (keyof ExtractedData)[] = [
+  'dateOfBirth', 'passportIssueDate', 'expiryDate', 'visaExpiryDate', 'departureDate', 'arrivalDate',
+];
+
+export const TIME_FIELDS: (keyof ExtractedData)[] = ['departureTime', 'arrivalTime'];
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+// Passport numbers are 6-9 letters and digits across the issuing states we see
+const PASSPORT_NUMBER_PATTERN = /^[A-Z0-9]{6,9}$/;
+
+/**
+ * Parse a DD-MMM-YYYY date (e.g., 15-Mar-1990) to a local Date, or null when it is not a real date.
+ */
+export const parseDate = (value: string | undefined): Date | null => {
+  const match = /^(\d{2})-([A-Za-z]{3})-(\d{4})$/.exec(value?.trim() ?? '');
+  if (!match) return null;
+
+  const day = Number(match[1]);
+  const monthIndex = MONTHS.findIndex(m => m.toLowerCase() === match[2].toLowerCase());
+  const year = Number(match[3]);
+  if (monthIndex === -1) return null;
+
+  const date = new Date(year, monthIndex, day);
+  const isRealDate = date.getFullYear() === year && date.getMonth() === monthIndex && date.getDate() === day;
+  return isRealDate ? date : null;
+};
+
+const isValidDate = (value: string): boolean => parseDate(value) !== null;
+
+/**
+ * Normalize a user-entered value before it is stored (trimmed, canonical casing).
+ */
+export const normalizeFieldValue = (field: keyof ExtractedData, value: string): string => {
+  const trimmed = value.trim();
+  if (field === 'passportNumber') {
+    return trimmed.toUpperCase().replace(/\s+/g, '');
+  }
+  if (DATE_FIELDS.includes(field)) {
+    const [day, month, year] = trimmed.split('-');
+    if (day && month && year) {
+      return `${day}-${month.charAt(0).toUpperCase()}${month.slice(1).toLowerCase()}-${year}`;
+    }
+  }
+  return trimmed;
+};
+
+/**
+ * Validate a user-entered value for one field. Returns an error message, or null when valid.
+ */
+export const validateField = (field: keyof ExtractedData, value: string): string | null => {
+  const normalized = normalizeFieldValue(field, value);
+
+  if (field === 'name') {
+    return normalized ? null : 'Name is required';
+  }
+
+  if (!normalized) return null;
+
+  if (field === 'passportNumber' && !PASSPORT_NUMBER_PATTERN.test(normalized)) {
+    return 'Passport number must be 6-9 letters or digits';
+  }
+
+  if (DATE_FIELDS.includes(field) && !isValidDate(normalized)) {
+    return 'Date must be a valid DD-MMM-YYYY date (e.g., 15-Mar-1990)';
+  }
+
+  if (TIME_FIELDS.includes(field) && !TIME_PATTERN.test(normalized)) {
+    return 'Time must be HH:MM on a 24-hour clock (e.g., 09:45)';
+  }
+
+  return null;
+};
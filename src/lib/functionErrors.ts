@@ -0,0 +1,81 @@
+import { FunctionsHttpError } from "@supabase/supabase-js";
+
+// Body of a 4xx/5xx response from extract-document-data
+export interface FunctionErrorBody {
+  error: string;
+  code?: string;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Error raised for a failed edge function call, carrying the structured body the
+ * function returned (when there was one) instead of supabase-js's generic message.
+ */
+export class ExtractionError extends Error {
+  readonly status?: number;
+  readonly code?: string;
+  readonly details?: Record<string, unknown>;
+
+  constructor(message: string, options: { status?: number; code?: string; details?: Record<string, unknown> } = {}) {
+    super(message);
+    this.name = "ExtractionError";
+    this.status = options.status;
+    this.code = options.code;
+    this.details = options.details;
+  }
+}
+
+export const toExtractionError = async (error: unknown): Promise<ExtractionError> => {
+  if (error instanceof ExtractionError) return error;
+
+  if (error instanceof FunctionsHttpError) {
+    const response: Response = error.context;
+    try {
+      const body: FunctionErrorBody = await response.clone().json();
+      return new ExtractionError(body.error || error.message, {
+        status: response.status,
+        code: body.code,
+        details: body.details,
+      });
+    } catch {
+      return new ExtractionError(error.message, { status: response.status });
+    }
+  }
+
+  return new ExtractionError(error instanceof Error ? error.message : String(error));
+};
+
+/**
+ * Toast title and description for a failed extraction. Rate limits clear up on their own;
+ * exhausted credits need someone to top up the workspace, so the two read differently.
+ */
+export const describeExtractionError = (error: ExtractionError): { title: string; description: string } => {
+  switch (error.code) {
+    case "RATE_LIMITED": {
+      const retryAfter = Number(error.details?.retryAfterSeconds);
+      return {
+        title: "AI rate limit reached",
+        description: Number.isFinite(retryAfter) && retryAfter > 0
+          ? `Too many requests right now. Try again in about ${retryAfter} seconds.`
+          : "Too many requests right now. Wait a minute and try again.",
+      };
+    }
+    case "UNAUTHORIZED":
+      return {
+        title: "Signed out",
+        description: "Your session has ended. Sign in again, then process the documents.",
+      };
+    case "FORBIDDEN":
+      return {
+        title: "Not allowed",
+        description: "Your role in this agency cannot process documents. Ask an admin to make you an agent.",
+      };
+    case "CREDITS_EXHAUSTED":
+      return {
+        title: "AI credits exhausted",
+        description: "The workspace has run out of AI credits. Add credits in workspace settings, then process again.",
+      };
+    default:
+      return { title: "Processing failed", description: error.message || "Failed to process documents" };
+  }
+};
@@ -0,0 +1,32 @@
+import type { FlightSegment } from "@/components/ExtractedDataTable";
+
+const segmentKey = (segment: FlightSegment): string => {
+  return `${segment.flightNumber.replace(/\s+/g, '').toUpperCase()}|${segment.date.toLowerCase()}`;
+};
+
+// Combine the segments of several documents (e.g., outbound and return e-tickets), dropping duplicates
+export const mergeSegments = (...lists: (FlightSegment[] | undefined)[]): FlightSegment[] => {
+  const seen = new Set<string>();
+  const merged: FlightSegment[] = [];
+
+  for (const segment of lists.flatMap(list => list || [])) {
+    const key = segmentKey(segment);
+    if (seen.has(key)) continue;
+    seen.add(key);
+    merged.push(segment);
+  }
+
+  return merged;
+};
+
+export const formatSegment = (segment: FlightSegment): string => {
+  const departs = [segment.date, segment.departureTime].filter(Boolean).join(' ');
+  const arrives = segment.arrivalDate && segment.arrivalDate !== segment.date
+    ? [segment.arrivalDate, segment.arrivalTime].filter(Boolean).join(' ')
+    : segment.arrivalTime;
+  return [
+    segment.flightNumber,
+    `${segment.origin} → ${segment.destination}`,
+    [departs, arrives].filter(Boolean).join(' - '),
+  ].filter(Boolean).join(' ');
+};
@@ -0,0 +1,36 @@
+// Simultaneous batch requests; each batch also fans out server-side (EXTRACTION_BATCH_CONCURRENCY).
+// VITE_EXTRACTION_CONCURRENCY overrides it per deployment
+export const PROCESSING_CONCURRENCY = Math.max(1, Number(import.meta.env.VITE_EXTRACTION_CONCURRENCY) || 2);
+
+/**
+ * Run `worker` over `items` with at most `concurrency` calls in flight, in item order.
+ * Aborting `signal` stops new items from starting; calls already running are left to finish.
+ * Workers are expected to handle their own errors. Resolves with the items that were started.
+ */
+export const runQueue = async <T>(
+  items: T[],
+  worker: (item: T) => Promise<void>,
+  { concurrency, signal }: { concurrency: number; signal?: AbortSignal },
+): Promise<T[]> => {
+  const started: T[] = [];
+  let next = 0;
+
+  const runner = async () => {
+    while (next < items.length && !signal?.aborted) {
+      const item = items[next++];
+      started.push(item);
+      await worker(item);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, runner));
+  return started;
+};
+
+/**
+ * Seconds left at the throughput seen so far, or null until the first item has finished.
+ */
+export const estimateSecondsRemaining = (finished: number, total: number, elapsedMs: number): number | null => {
+  if (finished === 0 || finished >= total) return null;
+  return Math.ceil(((elapsedMs / finished) * (total - finished)) / 1000);
+};
@@ -0,0 +1,56 @@
+import { supabase } from "@/integrations/supabase/client";
+import { isRole, Role } from "./permissions";
+
+// Membership of the agency workspaces; see the organizations and roles migrations for the RPCs
+
+export interface OrganizationMember {
+  userId: string;
+  email: string;
+  role: Role;
+  joinedAt: string;
+}
+
+export interface OrganizationSettings {
+  retentionDays: number | null;
+  allowProvenanceExport: boolean;
+}
+
+const check = <T>({ data, error }: { data: T; error: { message: string } | null }): T => {
+  if (error) throw new Error(error.message);
+  return data;
+};
+
+export const listMembers = async (organizationId: string): Promise<OrganizationMember[]> => {
+  const rows = check(await supabase.rpc("list_organization_members", { org: organizationId }));
+  return rows.map((row) => ({
+    userId: row.user_id,
+    email: row.email,
+    role: isRole(row.role) ? row.role : "agent",
+    joinedAt: row.joined_at,
+  }));
+};
+
+export const addMember = async (organizationId: string, email: string, role: Role): Promise<void> => {
+  check(await supabase.rpc("add_organization_member", { org: organizationId, email, role }));
+};
+
+export const setMemberRole = async (organizationId: string, userId: string, role: Role): Promise<void> => {
+  check(await supabase.rpc("set_member_role", { org: organizationId, member: userId, role }));
+};
+
+export const removeMember = async (organizationId: string, userId: string): Promise<void> => {
+  check(await supabase.from("organization_members").delete().eq("organization_id", organizationId).eq("user_id", userId));
+};
+
+export const renameOrganization = async (organizationId: string, name: string): Promise<void> => {
+  check(await supabase.from("organizations").update({ name }).eq("id", organizationId));
+};
+
+export const updateOrganizationSettings = async (organizationId: string, settings: OrganizationSettings): Promise<void> => {
+  check(
+    await supabase
+      .from("organizations")
+      .update({ retention_days: settings.retentionDays, allow_provenance_export: settings.allowProvenanceExport })
+      .eq("id", organizationId),
+  );
+};
@@ -0,0 +1,45 @@
+import { getDocument, GlobalWorkerOptions } from "pdfjs-dist";
+import pdfWorkerUrl from "pdfjs-dist/build/pdf.worker.min.mjs?url";
+
+GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+
+// Render at 2x so small print (MRZ, ticket numbers) stays legible for OCR
+const RENDER_SCALE = 2;
+const JPEG_QUALITY = 0.9;
+
+export const isPdf = (file: File): boolean => {
+  return file.type === "application/pdf" || file.name.toLowerCase().endsWith(".pdf");
+};
+
+/**
+ * Rasterize every page of a PDF into a base64-encoded JPEG (without the data URL prefix),
+ * in page order.
+ */
+export const rasterizePdf = async (file: File): Promise<string[]> => {
+  const data = new Uint8Array(await file.arrayBuffer());
+  const pdf = await getDocument({ data }).promise;
+  const pages: string[] = [];
+
+  try {
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const viewport = page.getViewport({ scale: RENDER_SCALE });
+
+      const canvas = document.createElement("canvas");
+      canvas.width = Math.ceil(viewport.width);
+      canvas.height = Math.ceil(viewport.height);
+      const context = canvas.getContext("2d");
+      if (!context) {
+        throw new Error(`Could not render page ${pageNumber} of ${file.name}`);
+      }
+
+      await page.render({ canvasContext: context, viewport }).promise;
+      pages.push(canvas.toDataURL("image/jpeg", JPEG_QUALITY).split(",")[1]);
+      page.cleanup();
+    }
+  } finally {
+    await pdf.destroy();
+  }
+
+  return pages;
+};
@@ -0,0 +1,30 @@
+// Roles within an agency. The database enforces the same split (see the roles migration);
+// the UI uses this to hide what the signed-in member cannot do anyway.
+
+export type Role = "agent" | "reviewer" | "admin";
+
+/**
+ * process: upload, classify and extract documents
+ * review: edit fields, resolve conflicts, merge, split and approve passengers
+ * manage: change members, roles and agency settings, delete batches
+ */
+export type Permission = "process" | "review" | "manage";
+
+export const ROLES: Role[] = ["agent", "reviewer", "admin"];
+
+export const roleLabels: Record<Role, string> = {
+  agent: "Agent",
+  reviewer: "Reviewer",
+  admin: "Admin",
+};
+
+const rolePermissions: Record<Role, Permission[]> = {
+  agent: ["process"],
+  reviewer: ["review"],
+  admin: ["process", "review", "manage"],
+};
+
+export const isRole = (value: unknown): value is Role => ROLES.includes(value as Role);
+
+export const can = (role: Role | null | undefined, permission: Permission): boolean =>
+  role ? rolePermissions[role].includes(permission) : false;
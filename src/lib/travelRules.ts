@@ -0,0 +1,211 @@
+import type { ExtractedData, FlightSegment } from "@/components/ExtractedDataTable";
+import { parseDate } from "@/lib/fieldValidation";
+import { placeKey } from "../../supabase/functions/_shared/itinerary";
+
+export interface DestinationRule {
+  name: string;
+  match: string[]; // airport codes or city names, compared case-insensitively
+  passportValidityMonths: number; // required validity past the departure date
+}
+
+export interface VisaTypeRule {
+  match: RegExp;
+  label: string;
+  maxStayDays: number;
+}
+
+// Months of passport validity each destination requires beyond the departure date.
+// Destinations not listed fall back to DEFAULT_PASSPORT_VALIDITY_MONTHS.
+export const DEFAULT_PASSPORT_VALIDITY_MONTHS = 6;
+
+export const DESTINATION_RULES: DestinationRule[] = [
+  { name: "United Arab Emirates", match: ["DXB", "DWC", "AUH", "SHJ", "Dubai", "Abu Dhabi", "Sharjah"], passportValidityMonths: 6 },
+  { name: "Saudi Arabia", match: ["JED", "RUH", "MED", "DMM", "Jeddah", "Riyadh", "Madinah", "Medina"], passportValidityMonths: 6 },
+  { name: "Qatar", match: ["DOH", "Doha"], passportValidityMonths: 6 },
+  { name: "Turkey", match: ["IST", "SAW", "Istanbul"], passportValidityMonths: 6 },
+  { name: "Malaysia", match: ["KUL", "Kuala Lumpur"], passportValidityMonths: 6 },
+  { name: "United Kingdom", match: ["LHR", "LGW", "MAN", "BHX", "London", "Manchester", "Birmingham"], passportValidityMonths: 0 },
+  { name: "Schengen Area", match: ["CDG", "FRA", "AMS", "MXP", "FCO", "BCN", "MAD", "Paris", "Frankfurt", "Amsterdam", "Milan", "Rome", "Barcelona", "Madrid"], passportValidityMonths: 3 },
+];
+
+// Longest stay a visa category allows; categories not listed are not length-checked
+export const VISA_TYPE_RULES: VisaTypeRule[] = [
+  { match: /transit/i, label: "Transit", maxStayDays: 4 },
+  { match: /umrah/i, label: "Umrah", maxStayDays: 90 },
+  { match: /tourist|visit|B1\/?B2|B2/i, label: "Tourist", maxStayDays: 90 },
+];
+
+export type TravelFindingSeverity = "error" | "warning";
+
+export interface TravelFinding {
+  rule: "passportValidity" | "passportExpiresBeforeReturn" | "visaExpiry" | "visaType" | "missingData";
+  severity: TravelFindingSeverity;
+  message: string;
+}
+
+export type TravelStatus = "ok" | "warning" | "error" | "unchecked";
+
+interface TravelPlan {
+  departureDate: Date;
+  departureLabel: string;
+  destination: string;
+  returnDate: Date | null;
+  returnLabel: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const addMonths = (date: Date, months: number): Date => {
+  const result = new Date(date.getFullYear(), date.getMonth() + months, date.getDate());
+  // 31-Aug + 6 months rolls into March; clamp to the last day of the target month instead
+  if (result.getDate() !== date.getDate()) result.setDate(0);
+  return result;
+};
+
+/**
+ * Outbound date, destination and (for round trips) return date of a passenger's itinerary.
+ * On a round trip the return journey starts after the longest layover, so connections on
+ * either leg don't count as the destination.
+ */
+const getTravelPlan = (row: ExtractedData): TravelPlan | null => {
+  const segments: FlightSegment[] = (row.segments || []).filter((s) => parseDate(s.date));
+
+  if (segments.length === 0) {
+    const departureDate = parseDate(row.departureDate);
+    if (!departureDate) return null;
+    return {
+      departureDate,
+      departureLabel: row.departureDate,
+      destination: row.arrival || "",
+      returnDate: null,
+      returnLabel: "",
+    };
+  }
+
+  const first = segments[0];
+  const last = segments[segments.length - 1];
+  const plan: TravelPlan = {
+    departureDate: parseDate(first.date),
+    departureLabel: first.date,
+    destination: last.destination,
+    returnDate: null,
+    returnLabel: "",
+  };
+
+  const isRoundTrip = segments.length > 1 && placeKey(last.destination) === placeKey(first.origin);
+  if (!isRoundTrip) return plan;
+
+  let returnIndex = 1;
+  let longestGap = -1;
+  for (let i = 1; i < segments.length; i++) {
+    const arrived = parseDate(segments[i - 1].arrivalDate) ?? parseDate(segments[i - 1].date);
+    const gap = parseDate(segments[i].date).getTime() - arrived.getTime();
+    if (gap > longestGap) {
+      longestGap = gap;
+      returnIndex = i;
+    }
+  }
+
+  return {
+    ...plan,
+    destination: segments[returnIndex - 1].destination,
+    returnDate: parseDate(segments[returnIndex].date),
+    returnLabel: segments[returnIndex].date,
+  };
+};
+
+export const findDestinationRule = (destination: string): DestinationRule | undefined => {
+  const normalized = destination.toLowerCase();
+  return DESTINATION_RULES.find((rule) =>
+    rule.match.some((m) => (m.length === 3 && m === m.toUpperCase()
+      ? placeKey(destination) === m
+      : normalized.includes(m.toLowerCase())))
+  );
+};
+
+/**
+ * Check a consolidated passenger's passport and visa against their travel dates.
+ * Passengers without a readable departure date have nothing to check against.
+ */
+export const checkTravelDocuments = (row: ExtractedData): TravelFinding[] => {
+  const plan = getTravelPlan(row);
+  if (!plan) return [];
+
+  const findings: TravelFinding[] = [];
+  const destinationRule = findDestinationRule(plan.destination);
+  const destinationName = destinationRule?.name || plan.destination || "the destination";
+  const validityMonths = destinationRule?.passportValidityMonths ?? DEFAULT_PASSPORT_VALIDITY_MONTHS;
+
+  const passportExpiry = parseDate(row.expiryDate);
+  if (!passportExpiry) {
+    findings.push({
+      rule: "missingData",
+      severity: "warning",
+      message: "No passport expiry date to check against travel dates",
+    });
+  } else {
+    if (passportExpiry < addMonths(plan.departureDate, validityMonths)) {
+      findings.push({
+        rule: "passportValidity",
+        severity: "error",
+        message: validityMonths > 0
+          ? `${destinationName} requires ${validityMonths} months of passport validity after departure on ${plan.departureLabel}; passport expires ${row.expiryDate}`
+          : `Passport expires ${row.expiryDate}, before departure on ${plan.departureLabel}`,
+      });
+    }
+    if (plan.returnDate && passportExpiry < plan.returnDate) {
+      findings.push({
+        rule: "passportExpiresBeforeReturn",
+        severity: "error",
+        message: `Passport expires ${row.expiryDate}, before the return flight on ${plan.returnLabel}`,
+      });
+    }
+  }
+
+  if (row.visaExpiryDate) {
+    const visaExpiry = parseDate(row.visaExpiryDate);
+    const travelEnd = plan.returnDate ?? plan.departureDate;
+    if (!visaExpiry) {
+      findings.push({
+        rule: "missingData",
+        severity: "warning",
+        message: `Visa expiry date "${row.visaExpiryDate}" could not be read`,
+      });
+    } else if (visaExpiry < travelEnd) {
+      findings.push({
+        rule: "visaExpiry",
+        severity: "error",
+        message: plan.returnDate
+          ? `Visa expires ${row.visaExpiryDate}, before the return flight on ${plan.returnLabel}`
+          : `Visa expires ${row.visaExpiryDate}, before departure on ${plan.departureLabel}`,
+      });
+    }
+  } else if (row.visaType) {
+    findings.push({
+      rule: "missingData",
+      severity: "warning",
+      message: "No visa expiry date to check against travel dates",
+    });
+  }
+
+  const visaRule = row.visaType ? VISA_TYPE_RULES.find((rule) => rule.match.test(row.visaType)) : undefined;
+  if (visaRule && plan.returnDate) {
+    const stayDays = Math.round((plan.returnDate.getTime() - plan.departureDate.getTime()) / DAY_MS);
+    if (stayDays > visaRule.maxStayDays) {
+      findings.push({
+        rule: "visaType",
+        severity: "error",
+        message: `${visaRule.label} visa allows up to ${visaRule.maxStayDays} days; trip is ${stayDays} days (${plan.departureLabel} to ${plan.returnLabel})`,
+      });
+    }
+  }
+
+  return findings;
+};
+
+export const getTravelStatus = (row: ExtractedData): TravelStatus => {
+  if (!getTravelPlan(row)) return "unchecked";
+  const findings = checkTravelDocuments(row);
+  if (findings.some((f) => f.severity === "error")) return "error";
+  return findings.length > 0 ? "warning" : "ok";
+};
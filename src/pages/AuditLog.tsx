@@ -0,0 +1,201 @@
+import { useState } from "react";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { Link } from "react-router-dom";
+import { Loader2 } from "lucide-react";
+import { AppHeader } from "@/components/AppHeader";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useAuth } from "@/hooks/use-auth";
+import { AUDIT_PAGE_SIZE, AuditAction, auditActionLabels, describeAuditEvent, listAuditEvents } from "@/lib/auditLog";
+import { listBatches } from "@/lib/batchStore";
+import { listMembers } from "@/lib/organizations";
+import { can } from "@/lib/permissions";
+
+// Radix selects cannot hold an empty value, so "no filter" gets its own
+const ALL = "all";
+
+const formatTimestamp = (value: string): string =>
+  new Date(value).toLocaleString("en-GB", {
+    day: "2-digit",
+    month: "short",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  });
+
+const AuditLog = () => {
+  const { organization } = useAuth();
+  const isAdmin = can(organization.role, "manage");
+  const [userId, setUserId] = useState(ALL);
+  const [batchId, setBatchId] = useState(ALL);
+  const [passenger, setPassenger] = useState("");
+  const [limit, setLimit] = useState(AUDIT_PAGE_SIZE);
+
+  const filters = {
+    userId: userId === ALL ? undefined : userId,
+    batchId: batchId === ALL ? undefined : batchId,
+    passenger: passenger.trim() || undefined,
+  };
+
+  const { data: members = [] } = useQuery({
+    queryKey: ["members", organization.id],
+    queryFn: () => listMembers(organization.id),
+    enabled: isAdmin,
+  });
+  const { data: batches = [] } = useQuery({
+    queryKey: ["batches", organization.id],
+    queryFn: () => listBatches(organization.id),
+    enabled: isAdmin,
+  });
+  const { data: events = [], isLoading, isFetching, error } = useQuery({
+    queryKey: ["audit", organization.id, filters, limit],
+    queryFn: () => listAuditEvents(organization.id, filters, limit),
+    enabled: isAdmin,
+    placeholderData: keepPreviousData,
+  });
+
+  // A new filter starts again from the newest events
+  const filterBy = <T,>(set: (value: T) => void) => (value: T) => {
+    set(value);
+    setLimit(AUDIT_PAGE_SIZE);
+  };
+
+  if (!isAdmin) {
+    return (
+      <div className="min-h-screen bg-background">
+        <AppHeader />
+        <main className="container mx-auto px-4 py-12">
+          <p className="text-center text-muted-foreground">Only admins of {organization.name} can view the audit log.</p>
+        </main>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <AppHeader />
+
+      <main className="container mx-auto px-4 py-12">
+        <div className="max-w-6xl mx-auto space-y-6">
+          <div>
+            <h2 className="text-3xl font-bold text-foreground">Audit log</h2>
+            <p className="text-muted-foreground">
+              Who uploaded, extracted, opened, changed or exported passenger data in {organization.name}
+            </p>
+          </div>
+
+          <Card className="p-6">
+            <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+              <div className="space-y-2">
+                <Label htmlFor="audit-user">User</Label>
+                <Select value={userId} onValueChange={filterBy(setUserId)}>
+                  <SelectTrigger id="audit-user">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>All users</SelectItem>
+                    {members.map((member) => (
+                      <SelectItem key={member.userId} value={member.userId}>{member.email}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="audit-batch">Batch</Label>
+                <Select value={batchId} onValueChange={filterBy(setBatchId)}>
+                  <SelectTrigger id="audit-batch">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>All batches</SelectItem>
+                    {batches.map((batch) => (
+                      <SelectItem key={batch.id} value={batch.id}>{batch.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="audit-passenger">Passenger</Label>
+                <Input
+                  id="audit-passenger"
+                  value={passenger}
+                  onChange={(event) => filterBy(setPassenger)(event.target.value)}
+                  placeholder="Part of a name"
+                />
+              </div>
+            </div>
+          </Card>
+
+          <Card>
+            {isLoading ? (
+              <p className="flex items-center justify-center gap-2 p-8 text-muted-foreground">
+                <Loader2 className="h-5 w-5 animate-spin" />
+                Loading events...
+              </p>
+            ) : error ? (
+              <p className="p-8 text-center text-destructive">
+                Could not load the audit log: {error instanceof Error ? error.message : String(error)}
+              </p>
+            ) : events.length === 0 ? (
+              <p className="p-8 text-center text-muted-foreground">No events match these filters.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>When</TableHead>
+                    <TableHead>User</TableHead>
+                    <TableHead>Action</TableHead>
+                    <TableHead>Batch</TableHead>
+                    <TableHead>Passengers</TableHead>
+                    <TableHead>Details</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {events.map((event) => (
+                    <TableRow key={event.id}>
+                      <TableCell className="whitespace-nowrap text-muted-foreground">{formatTimestamp(event.created_at)}</TableCell>
+                      <TableCell>{event.user_email ?? event.user_id}</TableCell>
+                      <TableCell>
+                        <Badge variant="secondary" className="whitespace-nowrap">
+                          {auditActionLabels[event.action as AuditAction] ?? event.action}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>
+                        {event.batch_id && batches.some((batch) => batch.id === event.batch_id) ? (
+                          <Link to={`/batches/${event.batch_id}`} className="hover:underline">{event.batch_name}</Link>
+                        ) : (
+                          <span className="text-muted-foreground">{event.batch_name ?? "-"}</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="max-w-xs truncate" title={event.passengers ?? undefined}>
+                        {event.passengers ?? "-"}
+                      </TableCell>
+                      <TableCell className="text-sm">{describeAuditEvent(event)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </Card>
+
+          {events.length >= limit && (
+            <div className="flex justify-center">
+              <Button variant="outline" className="gap-2" disabled={isFetching} onClick={() => setLimit((prev) => prev + AUDIT_PAGE_SIZE)}>
+                {isFetching && <Loader2 className="h-4 w-4 animate-spin" />}
+                Load older events
+              </Button>
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default AuditLog;
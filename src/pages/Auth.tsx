@@ -0,0 +1,97 @@
+import { FormEvent, useState } from "react";
+import { Navigate, useLocation } from "react-router-dom";
+import { FileText, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+
+// Accounts are by invitation only, so there is no sign-up here. Invited users who have not
+// set a password yet sign in with an emailed link.
+const Auth = () => {
+  const { session } = useAuth();
+  const location = useLocation();
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const { toast } = useToast();
+
+  if (session) {
+    const from = (location.state as { from?: string } | null)?.from;
+    return <Navigate to={from && from !== "/auth" ? from : "/"} replace />;
+  }
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    setSubmitting(true);
+    const { error } = await supabase.auth.signInWithPassword({ email, password });
+    setSubmitting(false);
+
+    if (error) {
+      toast({ title: "Sign-in failed", description: error.message, variant: "destructive" });
+    }
+  };
+
+  const handleSendLink = async () => {
+    setSubmitting(true);
+    const { error } = await supabase.auth.signInWithOtp({
+      email,
+      options: { shouldCreateUser: false, emailRedirectTo: window.location.origin },
+    });
+    setSubmitting(false);
+
+    if (error) {
+      toast({ title: "Could not send sign-in link", description: error.message, variant: "destructive" });
+      return;
+    }
+    toast({ title: "Check your email", description: `We sent a sign-in link to ${email}` });
+  };
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-background p-4">
+      <Card className="w-full max-w-md p-6 space-y-4">
+        <div className="flex items-center gap-3">
+          <div className="rounded-lg bg-primary/10 p-2">
+            <FileText className="h-6 w-6 text-primary" />
+          </div>
+          <div>
+            <h1 className="text-2xl font-bold text-foreground">DocuScan AI</h1>
+            <p className="text-sm text-muted-foreground">Sign in to your agency workspace</p>
+          </div>
+        </div>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="email">Email</Label>
+            <Input id="email" type="email" autoComplete="email" value={email} onChange={(e) => setEmail(e.target.value)} required />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="password">Password</Label>
+            <Input
+              id="password"
+              type="password"
+              autoComplete="current-password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              required
+            />
+          </div>
+          <Button type="submit" className="w-full gap-2" disabled={submitting}>
+            {submitting && <Loader2 className="h-4 w-4 animate-spin" />}
+            Sign in
+          </Button>
+          <Button type="button" variant="outline" className="w-full" disabled={submitting || !email} onClick={handleSendLink}>
+            Email me a sign-in link
+          </Button>
+        </form>
+        <p className="text-center text-xs text-muted-foreground">
+          Accounts are by invitation only. Ask your agency admin if you do not have one.
+        </p>
+      </Card>
+    </div>
+  );
+};
+
+export default Auth;
@@ -0,0 +1,233 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Archive, ArchiveRestore, FolderOpen, Loader2, Pencil, Trash2 } from "lucide-react";
+import { AppHeader } from "@/components/AppHeader";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { BatchSummary, deleteBatch, listBatches, renameBatch, setBatchArchived } from "@/lib/batchStore";
+import { can } from "@/lib/permissions";
+
+const formatTimestamp = (value: string): string =>
+  new Date(value).toLocaleString("en-GB", { day: "2-digit", month: "short", year: "numeric", hour: "2-digit", minute: "2-digit" });
+
+const Batches = () => {
+  const [showArchived, setShowArchived] = useState(false);
+  const [renaming, setRenaming] = useState<{ batch: BatchSummary; name: string } | null>(null);
+  const [deleting, setDeleting] = useState<BatchSummary | null>(null);
+  const queryClient = useQueryClient();
+  const { organization } = useAuth();
+  const { toast } = useToast();
+  const canDelete = can(organization.role, "manage");
+
+  const { data: batches = [], isLoading, error } = useQuery({
+    queryKey: ["batches", organization.id],
+    queryFn: () => listBatches(organization.id),
+  });
+
+  // Every change refetches the list; failures surface as a toast
+  const useBatchMutation = <T,>(mutationFn: (input: T) => Promise<void>, success: (input: T) => string) =>
+    useMutation({
+      mutationFn,
+      onSuccess: (_, input) => {
+        queryClient.invalidateQueries({ queryKey: ["batches"] });
+        toast({ title: success(input) });
+      },
+      onError: (mutationError) => toast({
+        title: "Batch not updated",
+        description: mutationError instanceof Error ? mutationError.message : String(mutationError),
+        variant: "destructive",
+      }),
+    });
+
+  const rename = useBatchMutation(
+    ({ id, name }: { id: string; name: string }) => renameBatch(id, name),
+    ({ name }) => `Renamed to ${name}`,
+  );
+  const archive = useBatchMutation(
+    ({ id, archived }: { id: string; archived: boolean }) => setBatchArchived(id, archived),
+    ({ archived }) => (archived ? "Batch archived" : "Batch restored"),
+  );
+  const remove = useBatchMutation((id: string) => deleteBatch(id), () => "Batch deleted");
+
+  const visible = batches.filter((batch) => showArchived || !batch.archived);
+  const archivedCount = batches.filter((batch) => batch.archived).length;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <AppHeader />
+
+      <main className="container mx-auto px-4 py-12">
+        <div className="max-w-6xl mx-auto space-y-6">
+          <div className="flex flex-wrap items-end justify-between gap-4">
+            <div>
+              <h2 className="text-3xl font-bold text-foreground">Batches</h2>
+              <p className="text-muted-foreground">Tour groups and departures of {organization.name}</p>
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch id="show-archived" checked={showArchived} onCheckedChange={setShowArchived} />
+              <Label htmlFor="show-archived">Show archived ({archivedCount})</Label>
+            </div>
+          </div>
+
+          <Card>
+            {isLoading ? (
+              <p className="flex items-center justify-center gap-2 p-8 text-muted-foreground">
+                <Loader2 className="h-5 w-5 animate-spin" />
+                Loading batches...
+              </p>
+            ) : error ? (
+              <p className="p-8 text-center text-destructive">
+                Could not load batches: {error instanceof Error ? error.message : String(error)}
+              </p>
+            ) : visible.length === 0 ? (
+              <p className="p-8 text-center text-muted-foreground">
+                No batches yet. <Link to="/" className="text-primary underline">Upload documents</Link> to start one.
+              </p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Documents</TableHead>
+                    <TableHead>Passengers</TableHead>
+                    <TableHead>Created</TableHead>
+                    <TableHead>Last change</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visible.map((batch) => (
+                    <TableRow key={batch.id}>
+                      <TableCell className="font-medium">
+                        <Link to={`/batches/${batch.id}`} className="hover:underline">{batch.name}</Link>
+                        {batch.archived && <Badge variant="secondary" className="ml-2">Archived</Badge>}
+                      </TableCell>
+                      <TableCell>{batch.documentCount}</TableCell>
+                      <TableCell>{batch.passengerCount}</TableCell>
+                      <TableCell className="text-muted-foreground">{formatTimestamp(batch.created_at)}</TableCell>
+                      <TableCell className="text-muted-foreground">{formatTimestamp(batch.updated_at)}</TableCell>
+                      <TableCell>
+                        <div className="flex justify-end gap-1">
+                          <Button variant="ghost" size="sm" asChild title="Open">
+                            <Link to={`/batches/${batch.id}`}>
+                              <FolderOpen className="h-4 w-4" />
+                            </Link>
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title="Rename"
+                            onClick={() => setRenaming({ batch, name: batch.name })}
+                          >
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title={batch.archived ? "Restore" : "Archive"}
+                            onClick={() => archive.mutate({ id: batch.id, archived: !batch.archived })}
+                            disabled={archive.isPending}
+                          >
+                            {batch.archived ? <ArchiveRestore className="h-4 w-4" /> : <Archive className="h-4 w-4" />}
+                          </Button>
+                          {canDelete && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              title="Delete"
+                              className="text-destructive hover:text-destructive"
+                              onClick={() => setDeleting(batch)}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </Card>
+        </div>
+      </main>
+
+      <Dialog open={renaming !== null} onOpenChange={(open) => !open && setRenaming(null)}>
+        <DialogContent>
+          <form
+            className="space-y-4"
+            onSubmit={(event) => {
+              event.preventDefault();
+              const name = renaming.name.trim();
+              if (!name) return;
+              rename.mutate({ id: renaming.batch.id, name });
+              setRenaming(null);
+            }}
+          >
+            <DialogHeader>
+              <DialogTitle>Rename batch</DialogTitle>
+            </DialogHeader>
+            <Input
+              autoFocus
+              value={renaming?.name ?? ""}
+              onChange={(event) => setRenaming((prev) => prev && { ...prev, name: event.target.value })}
+              placeholder="e.g. Umrah group 12-Nov"
+            />
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setRenaming(null)}>Cancel</Button>
+              <Button type="submit" disabled={!renaming?.name.trim()}>Save</Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={deleting !== null} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {deleting?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This permanently removes the batch, its {deleting?.documentCount} uploaded document(s) and
+              every extracted passenger. Archive it instead to keep the data out of the way.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              onClick={() => remove.mutate(deleting.id)}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default Batches;
@@ -1,201 +1,735 @@
-import { useState } from "react";
-import { FileText } from "lucide-react";
+import { useEffect, useRef, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { FileText, Loader2 } from "lucide-react";
+import { AppHeader } from "@/components/AppHeader";
 import { DocumentUpload, DocumentType } from "@/components/DocumentUpload";
-import { DocumentPreview } from "@/components/DocumentPreview";
-import { ExtractedDataTable, ExtractedData } from "@/components/ExtractedDataTable";
+import { DocumentPreview, UploadedDocument } from "@/components/DocumentPreview";
+import { ProcessingProgress } from "@/components/ProcessingProgress";
+import {
+  ConflictCandidate,
+  DocumentSource,
+  ExtractedDataTable,
+  ExtractedData,
+  ExtractedField,
+} from "@/components/ExtractedDataTable";
+import { extractedColumns } from "@/lib/columns";
 import { Button } from "@/components/ui/button";
-import { useToast } from "@/hooks/use-toast";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useAuth } from "@/hooks/use-auth";
+import { toast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
+import { isPdf, rasterizePdf } from "@/lib/pdf";
+import { BatchEvent, BatchPage, planBatches, streamBatch } from "@/lib/batchExtraction";
+import {
+  createBatch,
+  deleteDocument,
+  loadBatch,
+  saveDecisions,
+  savePassengers,
+  updateDocumentRow,
+  uploadDocument,
+} from "@/lib/batchStore";
+import { getCachedPage, pageCacheKey, putCachedPage } from "@/lib/extractionCache";
+import { describeExtractionError, ExtractionError, toExtractionError } from "@/lib/functionErrors";
+import { formatSegment } from "@/lib/itinerary";
+import { PROCESSING_CONCURRENCY, runQueue } from "@/lib/jobQueue";
+import { can } from "@/lib/permissions";
+import { AuditEventInput, recordAuditEvent } from "@/lib/auditLog";
+import {
+  ConsolidationDecisions,
+  consolidateData,
+  diffPassengers,
+  EMPTY_DECISIONS,
+  hasConflicts,
+  mergeFileResults,
+  PassengerChanges,
+  preserveManualEdits,
+  recordMerge,
+  recordSplit,
+} from "@/lib/consolidation";
 
 
-interface FilesByType {
-  passport: File[];
-  visa: File[];
-  flight: File[];
-}
+const reportSaveError = (error: unknown) => {
+  console.error("Saving batch failed:", error);
+  toast({
+    title: "Could not save batch",
+    description: error instanceof Error ? error.message : String(error),
+    variant: "destructive",
+  });
+};
 
-const Index = () => {
-  const [filesByType, setFilesByType] = useState<FilesByType>({
-    passport: [],
-    visa: [],
-    flight: [],
+// The audit trail must not hold up the work it describes, but a gap in it should be noticed
+const reportAuditError = (error: unknown) => {
+  console.error("Writing audit event failed:", error);
+  toast({
+    title: "Could not write audit log",
+    description: error instanceof Error ? error.message : String(error),
+    variant: "destructive",
   });
+};
+
+// Content hashes of uploaded files, so a file dropped again is recognised whatever its name
+const fileHashes = new WeakMap<File, Promise<string>>();
+
+const hashFile = (file: File): Promise<string> => {
+  if (!fileHashes.has(file)) {
+    fileHashes.set(file, file.arrayBuffer()
+      .then((bytes) => crypto.subtle.digest("SHA-256", bytes))
+      .then((digest) => Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("")));
+  }
+  return fileHashes.get(file);
+};
+
+const Index = () => {
+  const [documents, setDocuments] = useState<UploadedDocument[]>([]);
   const [extractedData, setExtractedData] = useState<ExtractedData[]>([]);
+  // Per-document extraction results, kept so passengers can be re-consolidated after a merge or split
+  const [documentResults, setDocumentResults] = useState<ExtractedData[]>([]);
+  const [decisions, setDecisions] = useState<ConsolidationDecisions>(EMPTY_DECISIONS);
   const [isProcessing, setIsProcessing] = useState(false);
-  const { toast } = useToast();
+  // The processing run in progress, for the progress card
+  const [run, setRun] = useState<{ files: File[]; startedAt: number; cancelling: boolean } | null>(null);
+  const cancelRef = useRef<AbortController | null>(null);
+  // Export options held while the user confirms exporting with unresolved conflicts
+  const [pendingExport, setPendingExport] = useState<{ includeProvenance: boolean } | null>(null);
+
+  // The saved batch on screen, created with the first upload; /batches/:batchId reopens one
+  const [batch, setBatch] = useState<{ id: string; name: string; organizationId: string } | null>(null);
+  const [loadingBatch, setLoadingBatch] = useState(false);
+  const batchIdRef = useRef<string | null>(null);
+  const batchCreationRef = useRef<Promise<string> | null>(null);
+  // Writes for each uploaded file, chained so they land in order; each resolves to the row id
+  const documentWritesRef = useRef(new Map<File, Promise<string | null>>());
+  const passengerWritesRef = useRef<Promise<void>>(Promise.resolve());
+  const { batchId: routeBatchId } = useParams();
+  const navigate = useNavigate();
+  const { user, organization, selectOrganization } = useAuth();
+  const canProcess = can(organization.role, "process");
+  const canReview = can(organization.role, "review");
+
+  // Events default to the agency and batch on screen
+  const audit = (event: Omit<AuditEventInput, "organizationId"> & { organizationId?: string }) => {
+    recordAuditEvent({ organizationId: organization.id, batchId: batchIdRef.current, ...event }).catch(reportAuditError);
+  };
+
+  const ensureBatch = (): Promise<string> => {
+    batchCreationRef.current ??= createBatch(organization.id)
+      .then((row) => {
+        batchIdRef.current = row.id;
+        setBatch({ id: row.id, name: row.name, organizationId: row.organization_id });
+        navigate(`/batches/${row.id}`, { replace: true });
+        return row.id;
+      })
+      .catch((error) => {
+        batchCreationRef.current = null;
+        throw error;
+      });
+    return batchCreationRef.current;
+  };
+
+  // Store the original and its row, then run any writes queued for the file meanwhile
+  const trackDocument = (file: File, position: number) => {
+    documentWritesRef.current.set(file, ensureBatch()
+      .then((batchId) => uploadDocument(batchId, file, position))
+      .catch((error) => {
+        reportSaveError(error);
+        return null;
+      }));
+  };
+
+  const persistDocument = (file: File, save: (rowId: string) => Promise<void>) => {
+    const previous = documentWritesRef.current.get(file);
+    if (!previous) return;
+    documentWritesRef.current.set(file, previous.then(async (rowId) => {
+      if (rowId) await save(rowId).catch(reportSaveError);
+      return rowId;
+    }));
+  };
+
+  const resetWorkspace = () => {
+    cancelRef.current?.abort();
+    batchIdRef.current = null;
+    batchCreationRef.current = null;
+    documentWritesRef.current = new Map();
+    setBatch(null);
+    setDocuments([]);
+    setDocumentResults([]);
+    setExtractedData([]);
+    setDecisions(EMPTY_DECISIONS);
+  };
+
+  /**
+   * Put a saved batch back on screen. Originals come back from Storage and finished files
+   * are rebuilt from their stored page extractions, so nothing is sent to the model again;
+   * the saved passenger rows then contribute their manual edits.
+   */
+  const restoreBatch = async (batchId: string) => {
+    batchIdRef.current = batchId;
+    batchCreationRef.current = Promise.resolve(batchId);
+    setLoadingBatch(true);
+    try {
+      const saved = await loadBatch(batchId);
+      audit({
+        organizationId: saved.batch.organization_id,
+        batchId,
+        action: "batch_opened",
+        passengers: saved.passengers.map((p) => p.name),
+      });
+      const restored: UploadedDocument[] = [];
+      const writes = new Map<File, Promise<string | null>>();
+      let missingCount = 0;
+
+      for (const { row, file, pages } of saved.documents) {
+        if (!file) {
+          missingCount++;
+          continue;
+        }
+        const document: UploadedDocument = {
+          file,
+          documentType: row.document_type as DocumentType | null,
+          detectedType: row.detected_type as DocumentType | null,
+          classifying: false,
+          // A run interrupted by the refresh left its files queued or processing
+          status: row.status === "failed" ? "failed" : "queued",
+          error: row.error ?? undefined,
+        };
+        if (row.status === "done" && document.documentType && pages.length > 0) {
+          try {
+            document.pageImages = await fileToPageImages(file);
+            document.results = buildFileResults(document, document.pageImages, pages);
+            document.status = "done";
+          } catch (error) {
+            console.error(`Could not rebuild results for ${file.name}:`, error);
+          }
+        }
+        restored.push(document);
+        writes.set(file, Promise.resolve(row.id));
+      }
+
+      const savedDecisions = saved.batch.decisions as unknown as ConsolidationDecisions;
+      const results = restored.flatMap((d) => d.results ?? []);
+      documentWritesRef.current = writes;
+      setBatch({ id: saved.batch.id, name: saved.batch.name, organizationId: saved.batch.organization_id });
+      // A link to another of the user's agencies switches the workspace along with it
+      selectOrganization(saved.batch.organization_id);
+      setDocuments(restored);
+      setDocumentResults(results);
+      setDecisions(savedDecisions);
+      setExtractedData(preserveManualEdits(consolidateData(results, savedDecisions), saved.passengers));
+
+      if (missingCount > 0) {
+        toast({
+          title: "Some files are missing",
+          description: `${missingCount} original(s) could not be downloaded and were left out`,
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      console.error("Opening batch failed:", error);
+      toast({
+        title: "Could not open batch",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+      batchIdRef.current = null;
+      navigate("/batches");
+    } finally {
+      setLoadingBatch(false);
+    }
+  };
+
+  // The helpers are recreated every render; the route effect reads the latest through here
+  const routeHandlersRef = useRef({ restoreBatch, resetWorkspace });
+  routeHandlersRef.current = { restoreBatch, resetWorkspace };
+
+  // Follow the route: a batch id opens that batch, the bare page starts a new one
+  useEffect(() => {
+    if ((routeBatchId ?? null) === batchIdRef.current) return;
+    if (routeBatchId) {
+      routeHandlersRef.current.restoreBatch(routeBatchId);
+    } else {
+      routeHandlersRef.current.resetWorkspace();
+    }
+  }, [routeBatchId]);
+
+  // Switching agency leaves a batch that belongs to the previous one
+  useEffect(() => {
+    if (batch && organization && batch.organizationId !== organization.id) navigate("/");
+  }, [batch, organization, navigate]);
+
+  // Save the table once it settles, so a burst of edits becomes one write
+  useEffect(() => {
+    if (!batch || loadingBatch) return;
+    const timer = window.setTimeout(() => {
+      passengerWritesRef.current = passengerWritesRef.current
+        .then(() => savePassengers(batch.id, extractedData))
+        .catch(reportSaveError);
+    }, 1000);
+    return () => window.clearTimeout(timer);
+  }, [batch, extractedData, loadingBatch]);
+
+  useEffect(() => {
+    if (!batch || loadingBatch) return;
+    saveDecisions(batch.id, decisions).catch(reportSaveError);
+  }, [batch, decisions, loadingBatch]);
+
+  const updateDocument = (file: File, update: Partial<UploadedDocument>) => {
+    setDocuments((prev) => prev.map((d) => (d.file === file ? { ...d, ...update } : d)));
+    persistDocument(file, (rowId) => updateDocumentRow(rowId, update));
+  };
+
+  // Ask the extraction function what each file is; the user can still override the answer
+  const classifyDocuments = async (files: File[]) => {
+    for (const file of files) {
+      try {
+        const pageImages = await fileToPageImages(file);
+        const { data, error } = await supabase.functions.invoke("extract-document-data", {
+          body: { organizationId: organization.id, image: pageImages[0], fileName: file.name, action: "classify" },
+        });
+        if (error) throw await toExtractionError(error);
+
+        const detectedType: DocumentType | null = data?.documentType === "unknown" ? null : data?.documentType ?? null;
+        updateDocument(file, { documentType: detectedType, detectedType, classifying: false, pageImages });
+      } catch (error) {
+        console.error("Classification error:", error);
+        updateDocument(file, { classifying: false });
+      }
+    }
+  };
 
-  const handleFilesSelected = (type: DocumentType, newFiles: File[]) => {
-    // Validate file types - only accept images
+  const handleFilesSelected = async (newFiles: File[]) => {
+    // Validate file types - only accept images and PDFs
     const validFiles = newFiles.filter(file => {
-      const isImage = file.type.startsWith('image/');
-      if (!isImage) {
+      const isSupported = file.type.startsWith('image/') || isPdf(file);
+      if (!isSupported) {
         toast({
           title: "Invalid file type",
-          description: `${file.name} is not an image. Please upload JPEG or PNG files only.`,
+          description: `${file.name} is not an image or PDF. Please upload JPEG, PNG or PDF files only.`,
           variant: "destructive",
         });
       }
-      return isImage;
+      return isSupported;
     });
 
     if (validFiles.length === 0) return;
 
-    setFilesByType((prev) => ({
+    // The same content again is left alone so its results are kept. Files that only share a
+    // name are different documents (every phone photo is image.jpg); an outdated version is
+    // removed by the user.
+    const uploadedHashes = new Set(await Promise.all(documents.map((d) => hashFile(d.file))));
+    const addedFiles: File[] = [];
+    for (const file of validFiles) {
+      const hash = await hashFile(file);
+      if (uploadedHashes.has(hash)) continue;
+      uploadedHashes.add(hash);
+      addedFiles.push(file);
+    }
+    const skippedCount = validFiles.length - addedFiles.length;
+    if (addedFiles.length === 0) {
+      toast({
+        title: "Already uploaded",
+        description: `${skippedCount} document(s) are already in this batch and were skipped`,
+      });
+      return;
+    }
+
+    setDocuments((prev) => [
       ...prev,
-      [type]: [...prev[type], ...validFiles],
-    }));
+      ...addedFiles.map((file): UploadedDocument => ({ file, documentType: null, detectedType: null, classifying: true, status: "queued" })),
+    ]);
+    addedFiles.forEach((file, index) => trackDocument(file, documents.length + index));
     toast({
       title: "Documents uploaded",
-      description: `${validFiles.length} ${type} document(s) added`,
+      description: [
+        `${addedFiles.length} document(s) added`,
+        skippedCount > 0 && `${skippedCount} already uploaded skipped`,
+      ].filter(Boolean).join(", ") + ", detecting their types",
     });
+    classifyDocuments(addedFiles);
   };
 
-  const handleRemoveFile = (type: DocumentType, index: number) => {
-    setFilesByType((prev) => ({
-      ...prev,
-      [type]: prev[type].filter((_, i) => i !== index),
-    }));
+  const handleRemoveFile = (index: number) => {
+    const { file, results } = documents[index];
+    const remaining = documents.filter((_, i) => i !== index);
+    setDocuments((prev) => prev.filter((d) => d.file !== file));
+    persistDocument(file, deleteDocument);
+    documentWritesRef.current.delete(file);
+
+    // Its passengers go with it; edits to passengers other documents still back are kept
+    if (results?.length) {
+      const remainingResults = remaining.flatMap((d) => (d.status === "done" ? d.results ?? [] : []));
+      setDocumentResults(remainingResults);
+      setExtractedData((prev) => preserveManualEdits(consolidateData(remainingResults, decisions), prev));
+    }
   };
 
-  const getTotalFiles = () => {
-    return filesByType.passport.length + filesByType.visa.length + filesByType.flight.length;
+  // A different type means a different prompt, so earlier results no longer apply
+  const handleChangeType = (index: number, documentType: DocumentType) => {
+    setDocuments((prev) => prev.map((d, i) => (
+      i === index ? { ...d, documentType, status: "queued", error: undefined, results: undefined, cached: undefined } : d
+    )));
+    persistDocument(documents[index].file, (rowId) => updateDocumentRow(rowId, { documentType, status: "queued", error: null }));
   };
 
-  // Extract all possible name variants from a raw name (handles slash-separated names)
-  const extractNameVariants = (name: string): string[] => {
-    if (!name) return [];
-    
-    const variants: string[] = [];
-    const honorifics = ['mr', 'mrs', 'ms', 'miss', 'dr', 'prof', 'sir', 'madam'];
-    
-    // Handle slash-separated names (e.g., "MASOODUL HASAN/TAZAIN FATIMA MRS")
-    const slashParts = name.split('/');
-    
-    for (const part of slashParts) {
-      let cleanPart = part;
+  const handleUpdateField = (rowIndex: number, field: ExtractedField, value: string) => {
+    setExtractedData(prev => prev.map((row, index) => {
+      if (index !== rowIndex) return row;
       
-      // Handle "?" separator if present
-      if (cleanPart.includes('?')) {
-        const qParts = cleanPart.split('?');
-        cleanPart = qParts[1] || qParts[0];
-      }
+      // A manual correction supersedes whatever the model reported for this field
+      const confidence = { ...(row.confidence || {}) };
+      delete confidence[field];
       
-      // Normalize: lowercase, remove non-letters except spaces
-      let normalized = cleanPart
-        .toLowerCase()
-        .replace(/[^a-z\s]/g, '')
-        .replace(/\s+/g, ' ')
-        .trim();
+      return {
+        ...row,
+        [field]: value,
+        confidence,
+        editedFields: Array.from(new Set([...(row.editedFields || []), field])),
+        approval: undefined, // the approval was for the old value
+      };
+    }));
+  };
+
+  const handleResolveConflict = (rowIndex: number, field: ExtractedField, candidate: ConflictCandidate) => {
+    setExtractedData(prev => prev.map((row, index) => {
+      if (index !== rowIndex) return row;
       
-      // Remove honorifics from beginning and end
-      const words = normalized.split(' ').filter(w => w.length > 0 && !honorifics.includes(w));
+      const confidence = { ...(row.confidence || {}) };
+      delete confidence[field];
       
-      if (words.length >= 1) {
-        variants.push(words.join(' '));
+      return {
+        ...row,
+        [field]: candidate.value,
+        confidence,
+        provenance: {
+          ...row.provenance,
+          [field]: {
+            fileName: candidate.fileName,
+            documentType: candidate.documentType,
+            page: candidate.page,
+            rawValue: candidate.value,
+          },
+        },
+        conflicts: (row.conflicts || []).filter(c => c.field !== field),
+        // Treat the choice like a manual edit so re-processing keeps it
+        editedFields: Array.from(new Set([...(row.editedFields || []), field])),
+        approval: undefined,
+      };
+    }));
+  };
+
+  const handleApproveRow = (rowIndex: number, approved: boolean) => {
+    setExtractedData(prev => prev.map((row, index) => {
+      if (index !== rowIndex) return row;
+      return { ...row, approval: approved ? { by: user?.email ?? "unknown", at: new Date().toISOString() } : undefined };
+    }));
+  };
+
+  // Stable across re-runs of the same upload, so merge/split decisions keep applying
+  const getDocumentId = (type: string, file: File): string => {
+    return `${type}/${file.name}/${file.size}/${file.lastModified}`;
+  };
+
+  const applyDecisions = (nextDecisions: ConsolidationDecisions) => {
+    setDecisions(nextDecisions);
+    setExtractedData(prev => preserveManualEdits(consolidateData(documentResults, nextDecisions), prev));
+  };
+
+  const handleMergeRows = (rowIndexes: number[]) => {
+    if (rowIndexes.length < 2) return;
+    applyDecisions(recordMerge(decisions, rowIndexes.map(i => extractedData[i])));
+    toast({
+      title: "Passengers merged",
+      description: `${rowIndexes.length} rows combined into one passenger`,
+    });
+  };
+
+  const handleSplitRow = (rowIndex: number) => {
+    const passenger = extractedData[rowIndex];
+    if ((passenger.documentIds?.length ?? 0) < 2) return;
+    applyDecisions(recordSplit(decisions, passenger));
+    toast({
+      title: "Passenger split",
+      description: `${passenger.name || "Passenger"} split into ${passenger.documentIds.length} rows, one per document`,
+    });
+  };
+
+  // Keep the page image and field locations so the viewer can show where each value came from
+  const toDocumentRecord = (
+    record: ExtractedData & { boundingBoxes?: DocumentSource["boundingBoxes"] },
+    source: Omit<DocumentSource, "boundingBoxes">,
+  ): ExtractedData => {
+    const { boundingBoxes, ...fields } = record;
+    const provenance: ExtractedData["provenance"] = {};
+    for (const [field, value] of Object.entries(fields)) {
+      if (typeof value === "string" && value && field !== "documentType") {
+        provenance[field] = { fileName: source.fileName, documentType: source.documentType, page: source.page, rawValue: value };
       }
     }
     
-    return variants;
+    return {
+      ...fields,
+      provenance,
+      sources: [{ ...source, boundingBoxes: boundingBoxes || {} }],
+    };
   };
 
-  const normalizeName = (name: string): string => {
-    const variants = extractNameVariants(name);
-    return variants[0] || '';
+  // Images are sent as-is; PDFs are rasterized so each page goes through extraction
+  const fileToPageImages = async (file: File): Promise<string[]> => {
+    if (isPdf(file)) {
+      return rasterizePdf(file);
+    }
+    return [await fileToBase64(file)];
   };
 
-  const namesMatch = (name1: string, name2: string): boolean => {
-    const variants1 = extractNameVariants(name1);
-    const variants2 = extractNameVariants(name2);
-    
-    // Handle empty names
-    if (variants1.length === 0 || variants2.length === 0) return false;
-    
-    // Check all combinations of variants
-    for (const v1 of variants1) {
-      for (const v2 of variants2) {
-        if (v1 === v2) return true;
-        
-        const words1 = v1.split(' ').filter(w => w.length > 0);
-        const words2 = v2.split(' ').filter(w => w.length > 0);
-        
-        if (words1.length < 2 || words2.length < 2) continue;
-        
-        // Check if same words in different order (e.g., "FATIMA ANEES" vs "ANEES FATIMA")
-        const sorted1 = [...words1].sort().join(' ');
-        const sorted2 = [...words2].sort().join(' ');
-        
-        if (sorted1 === sorted2) return true;
-        
-        // Check for significant overlap (at least 2 words must match)
-        const commonWords = words1.filter(word => words2.includes(word));
-        if (commonWords.length >= 2) return true;
+  // Turn the raw records of every page of one file, as the function returned them, into its passenger records
+  const buildFileResults = ({ file, documentType: type }: UploadedDocument, pageImages: string[], rawPages: Record<string, unknown>[][]): ExtractedData[] => {
+    const imageType = isPdf(file) ? "image/jpeg" : file.type;
+    // Group bookings return one record per passenger
+    const pageResults = rawPages.map((records, pageIndex) => (records as ExtractedData[]).map((record) => toDocumentRecord(record, {
+      fileName: file.name,
+      documentType: type,
+      page: pageIndex + 1,
+      imageUrl: `data:${imageType};base64,${pageImages[pageIndex]}`,
+    })));
+    const fileRecords = mergeFileResults(pageResults);
+    const documentId = getDocumentId(type, file);
+    return fileRecords.map((record, index) => ({
+      ...record,
+      documentIds: [fileRecords.length > 1 ? `${documentId}#${index + 1}` : documentId],
+    }));
+  };
+
+  /**
+   * Extract the given documents through the batch endpoint. Pages are grouped into
+   * batches, batches go through the job queue, and each file lands in the table as soon
+   * as its last page comes back. A failure only marks that file as failed. Pages already
+   * in the browser cache are sent as their signed records rather than the image, so the
+   * model is not asked again unless `force` is set.
+   */
+  const processDocuments = async (targets: UploadedDocument[], { force = false }: { force?: boolean } = {}) => {
+    const targetFiles = new Set(targets.map((d) => d.file));
+    const controller = new AbortController();
+    cancelRef.current = controller;
+    setIsProcessing(true);
+    setRun({ files: targets.map((d) => d.file), startedAt: Date.now(), cancelling: false });
+    setDocuments((prev) => prev.map((d) => (targetFiles.has(d.file) ? { ...d, status: "queued", error: undefined } : d)));
+
+    const results = new Map<File, ExtractedData[]>();
+    for (const document of documents) {
+      if (document.status === "done" && !targetFiles.has(document.file)) {
+        results.set(document.file, document.results || []);
       }
     }
-    
-    return false;
-  };
 
-  const consolidateData = (dataArray: ExtractedData[]): ExtractedData[] => {
-    const passengers: ExtractedData[] = [];
-    
-    dataArray.forEach(item => {
-      // Try to find existing passenger by passport number (most reliable)
-      let existingIndex = -1;
-      const itemPassport = item.passportNumber?.trim();
-      
-      if (itemPassport) {
-        existingIndex = passengers.findIndex(p => 
-          p.passportNumber?.trim() === itemPassport
-        );
+    // Per-file progress: page records received so far, and how many pages are still out
+    const pageImagesByFile = new Map<File, string[]>();
+    const pageResults = new Map<File, Record<string, unknown>[][]>();
+    const pagesLeft = new Map<File, number>();
+    const finished = new Set<File>();
+    const cachedPages = new Map<File, number>();
+    const pageOwners = new Map<string, { document: UploadedDocument; pageIndex: number; cacheKey: string; fromCache: boolean }>();
+
+    let failedCount = 0;
+    let stoppedBy: { title: string; description: string } | null = null;
+
+    const failDocument = (document: UploadedDocument, description: string) => {
+      if (finished.has(document.file)) return;
+      finished.add(document.file);
+      failedCount++;
+      updateDocument(document.file, { status: "failed", error: description });
+    };
+
+    // Keep upload order so consolidation is stable across retries
+    const publishResults = () => {
+      const newData = documents.flatMap((d) => results.get(d.file) ?? []);
+      setDocumentResults(newData);
+      setExtractedData((prev) => preserveManualEdits(consolidateData(newData, decisions), prev));
+      return newData;
+    };
+
+    const acceptPage = (id: string, pageRecords: Record<string, unknown>[], cached: boolean) => {
+      const { document, pageIndex } = pageOwners.get(id);
+      pageResults.get(document.file)[pageIndex] = pageRecords;
+      if (cached) cachedPages.set(document.file, (cachedPages.get(document.file) ?? 0) + 1);
+
+      const remaining = pagesLeft.get(document.file) - 1;
+      pagesLeft.set(document.file, remaining);
+      if (remaining > 0) return;
+
+      const rawPages = pageResults.get(document.file);
+      const records = buildFileResults(document, pageImagesByFile.get(document.file), rawPages);
+      finished.add(document.file);
+      results.set(document.file, records);
+      updateDocument(document.file, {
+        status: "done",
+        results: records,
+        cached: cachedPages.get(document.file) === pageResults.get(document.file).length,
+      });
+      publishResults();
+    };
+
+    const handleEvent = (event: BatchEvent) => {
+      if (event.type === "done") return;
+      const owner = pageOwners.get(event.id);
+      if (!owner || finished.has(owner.document.file)) return;
+      const { document, pageIndex } = owner;
+
+      if (event.type === "error") {
+        const extractionError = new ExtractionError(event.error, { status: event.status, code: event.code, details: event.details });
+        const { title, description } = describeExtractionError(extractionError);
+        console.error(`Processing error for ${document.file.name}, page ${pageIndex + 1}:`, extractionError);
+        failDocument(document, description);
+
+        // Every remaining batch would fail the same way until credits are added
+        if (extractionError.code === "CREDITS_EXHAUSTED" && !stoppedBy) {
+          stoppedBy = { title, description };
+          controller.abort();
+        }
+        return;
       }
-      
-      // If no passport match, try name matching - BUT only if current item has no passport number
-      // or if existing passenger has no passport number (prevents merging people with different passports)
-      if (existingIndex === -1 && item.name?.trim()) {
-        existingIndex = passengers.findIndex(p => {
-          // If both have passport numbers and they're different, they're DEFINITELY different people
-          const existingPassport = p.passportNumber?.trim();
-          if (itemPassport && existingPassport && itemPassport !== existingPassport) {
-            return false; // Different passport numbers = different people
+
+      if (!owner.fromCache) putCachedPage(owner.cacheKey, { records: event.records, model: event.model, signature: event.signature });
+      acceptPage(event.id, event.records, event.cached);
+    };
+
+    let newData: ExtractedData[] = [];
+    let notStarted: UploadedDocument[] = [];
+    try {
+      const pages: BatchPage[] = [];
+      // Browser cache hits go first and carry their signed records instead of the image; the
+      // function stores and records them like any other page
+      const cacheHits: BatchPage[] = [];
+      for (const [documentIndex, document] of targets.entries()) {
+        let pageImages: string[];
+        try {
+          pageImages = document.pageImages ?? await fileToPageImages(document.file);
+        } catch (error) {
+          console.error(`Could not read ${document.file.name}:`, error);
+          failDocument(document, "The file could not be read");
+          continue;
+        }
+
+        pageImagesByFile.set(document.file, pageImages);
+        pageResults.set(document.file, pageImages.map(() => []));
+        pagesLeft.set(document.file, pageImages.length);
+        // The function stores each page under the file's row once its upload is through
+        const documentId = (await documentWritesRef.current.get(document.file)) ?? undefined;
+        for (const [pageIndex, image] of pageImages.entries()) {
+          const id = `${documentIndex}:${pageIndex}`;
+          const cacheKey = await pageCacheKey(image, document.documentType);
+          const fileName = pageImages.length > 1 ? `${document.file.name} (page ${pageIndex + 1})` : document.file.name;
+          const page = { id, fileName, documentType: document.documentType, documentId, page: pageIndex + 1 };
+
+          const cached = force ? null : await getCachedPage(cacheKey);
+          pageOwners.set(id, { document, pageIndex, cacheKey, fromCache: Boolean(cached) });
+          if (cached) {
+            cacheHits.push({ ...page, signed: cached });
+            continue;
           }
-          return p.name && namesMatch(p.name, item.name);
-        });
+          pages.push({ ...page, image, force });
+        }
       }
-      
-      if (existingIndex !== -1) {
-        // Merge with existing passenger
-        const existing = passengers[existingIndex];
-        passengers[existingIndex] = {
-          // Prefer passport name over flight ticket name (cleaner format)
-          name: existing.passportNumber ? existing.name : (item.passportNumber ? item.name : existing.name),
-          passportNumber: existing.passportNumber || item.passportNumber,
-          dateOfBirth: existing.dateOfBirth || item.dateOfBirth,
-          nationality: existing.nationality || item.nationality,
-          passportIssueDate: existing.passportIssueDate || item.passportIssueDate,
-          expiryDate: existing.expiryDate || item.expiryDate,
-          visaType: item.visaType || existing.visaType,
-          flightNumber: item.flightNumber || existing.flightNumber,
-          bookingReference: item.bookingReference || existing.bookingReference,
-          ticketNumber: item.ticketNumber || existing.ticketNumber,
-          departure: item.departure || existing.departure,
-          arrival: item.arrival || existing.arrival,
-          transitStop: item.transitStop || existing.transitStop,
-          seatNumber: item.seatNumber || existing.seatNumber,
-          inflightMeal: item.inflightMeal || existing.inflightMeal,
-        };
-      } else {
-        // New passenger
-        passengers.push({ ...item });
+
+      await runQueue(planBatches([...cacheHits, ...pages]), async (batchPages) => {
+        const batchDocuments = Array.from(new Set(batchPages.map((page) => pageOwners.get(page.id).document)));
+        for (const document of batchDocuments) {
+          if (!finished.has(document.file)) updateDocument(document.file, { status: "processing" });
+        }
+
+        try {
+          await streamBatch({ organizationId: organization.id, batchId: batchIdRef.current ?? undefined }, batchPages, handleEvent);
+        } catch (error) {
+          console.error("Batch extraction error:", error);
+          const extractionError = await toExtractionError(error);
+          const { title, description } = describeExtractionError(extractionError);
+          batchDocuments.forEach((document) => failDocument(document, description));
+          if (extractionError.code === "CREDITS_EXHAUSTED" && !stoppedBy) {
+            stoppedBy = { title, description };
+            controller.abort();
+          }
+        }
+      }, { concurrency: PROCESSING_CONCURRENCY, signal: controller.signal });
+
+      // Files whose pages were never sent, because of a cancel or exhausted credits
+      notStarted = targets.filter((d) => !finished.has(d.file));
+      if (notStarted.length > 0) {
+        const skipped = new Set(notStarted.map((d) => d.file));
+        if (stoppedBy) {
+          const { description } = stoppedBy;
+          failedCount += skipped.size;
+          setDocuments((prev) => prev.map((d) => (skipped.has(d.file) ? { ...d, status: "failed", error: description } : d)));
+        } else {
+          // A cancel can leave a multi-page file half sent; it goes back to the queue
+          setDocuments((prev) => prev.map((d) => (skipped.has(d.file) ? { ...d, status: "queued" } : d)));
+        }
       }
-    });
-    
-    return passengers;
+
+      newData = publishResults();
+      // Counts only: the records are passport data
+      console.log(`Extracted ${newData.length} record(s) from ${results.size} document(s)`);
+    } finally {
+      cancelRef.current = null;
+      setRun(null);
+      setIsProcessing(false);
+    }
+
+    // After the first run, say which passengers this run added or changed rather than a total
+    const consolidated = preserveManualEdits(consolidateData(newData, decisions), extractedData);
+    const summary = extractedData.length > 0
+      ? describePassengerChanges(diffPassengers(extractedData, consolidated))
+      : `Extracted data for ${consolidated.length} passenger(s)`;
+    if (stoppedBy) {
+      toast({ ...stoppedBy, variant: "destructive" });
+      return;
+    }
+    if (notStarted.length > 0) {
+      toast({
+        title: "Processing cancelled",
+        description: `${notStarted.length} document(s) were not processed. ${summary} so far.`,
+      });
+      return;
+    }
+    toast(failedCount > 0
+      ? {
+        title: "Processing finished with errors",
+        description: `${failedCount} of ${targets.length} document(s) failed - retry them from the document list. ${summary}.`,
+        variant: "destructive",
+      }
+      : {
+        title: "Processing complete",
+        description: summary,
+      });
+  };
+
+  const describePassengerChanges = ({ added, changed }: PassengerChanges): string => {
+    const names = (rows: ExtractedData[]) => {
+      const listed = rows.slice(0, 3).map((row) => row.name || "unnamed passenger").join(", ");
+      return rows.length > 3 ? `${listed} and ${rows.length - 3} more` : listed;
+    };
+    const parts = [
+      added.length > 0 && `${added.length} passenger(s) added: ${names(added)}`,
+      changed.length > 0 && `${changed.length} updated: ${names(changed)}`,
+    ].filter(Boolean);
+    return parts.length > 0 ? parts.join("; ") : "No passengers added or changed";
+  };
+
+  // Stop dispatching new batches; batches already in flight finish and their results are kept
+  const handleCancel = () => {
+    cancelRef.current?.abort();
+    setRun((prev) => prev && { ...prev, cancelling: true });
   };
 
   const handleProcess = async () => {
-    const totalFiles = getTotalFiles();
-    
-    if (totalFiles === 0) {
+    if (documents.length === 0) {
       toast({
         title: "No documents",
         description: "Please upload at least one document",
@@ -204,54 +738,16 @@ const Index = () => {
       return;
     }
 
-    setIsProcessing(true);
-    const newData: ExtractedData[] = [];
+    await processDocuments(documents.filter((d) => d.status !== "done"));
+  };
 
-    try {
-      // Process all document types
-      for (const [type, files] of Object.entries(filesByType)) {
-        for (const file of files) {
-          const base64 = await fileToBase64(file);
-          
-          const { data, error } = await supabase.functions.invoke("extract-document-data", {
-            body: { 
-              image: base64, 
-              fileName: `${type}-${file.name}`,
-              documentType: type
-            },
-          });
-
-          if (error) throw error;
-
-          if (data?.extractedData) {
-            newData.push(data.extractedData);
-          }
-        }
-      }
+  const handleRetry = async (index: number) => {
+    await processDocuments([documents[index]]);
+  };
 
-      // Debug: Log raw extracted data before consolidation
-      console.log("Raw extracted data from all documents:", JSON.stringify(newData, null, 2));
-      
-      // Consolidate data by passenger
-      const consolidatedData = consolidateData(newData);
-      
-      console.log("Consolidated data:", JSON.stringify(consolidatedData, null, 2));
-      
-      setExtractedData(consolidatedData);
-      toast({
-        title: "Processing complete",
-        description: `Extracted data for ${consolidatedData.length} passenger(s)`,
-      });
-    } catch (error: any) {
-      console.error("Processing error:", error);
-      toast({
-        title: "Processing failed",
-        description: error.message || "Failed to process documents",
-        variant: "destructive",
-      });
-    } finally {
-      setIsProcessing(false);
-    }
+  // Bypass both caches for one file, e.g. after a prompt fix that did not bump the prompt version
+  const handleReextract = async (index: number) => {
+    await processDocuments([documents[index]], { force: true });
   };
 
   const fileToBase64 = (file: File): Promise<string> => {
@@ -322,24 +818,53 @@ const Index = () => {
     return `="${stringValue}"`;
   };
 
-  const handleExport = () => {
-    const headers = [
-      "Name",
-      "Passport Number",
-      "Date of Birth",
-      "Nationality",
-      "Passport Issue Date",
-      "Passport Expiry Date",
-      "Visa Type",
-      "Flight Number",
-      "Booking Reference",
-      "Ticket Number",
-      "Departure",
-      "Arrival",
-      "Transit Stop",
-      "Seat Number",
-      "Inflight Meal",
-    ];
+  const downloadCsv = (content: string, fileName: string) => {
+    const blob = new Blob([content], { type: "text/csv;charset=utf-8;" });
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = fileName;
+    a.click();
+    window.URL.revokeObjectURL(url);
+  };
+
+  // One row per passenger field, naming the document each value was taken from
+  const buildProvenanceCsv = (): string => {
+    const headers = ["Passenger", "Field", "Value", "Source File", "Document Type", "Page", "Raw Value", "Edited By User"];
+    const rows: string[] = [];
+
+    for (const row of extractedData) {
+      for (const column of extractedColumns) {
+        const value = row[column.key];
+        if (!value) continue;
+
+        const provenance = row.provenance?.[column.key];
+        rows.push([
+          escapeCsvValue(row.name),
+          escapeCsvValue(column.label),
+          column.isDate ? escapeCsvDateValue(formatDate(value)) : escapeCsvValue(value),
+          escapeCsvValue(provenance?.fileName),
+          escapeCsvValue(provenance?.documentType),
+          escapeCsvValue(provenance ? String(provenance.page) : ""),
+          column.isDate ? escapeCsvDateValue(provenance?.rawValue) : escapeCsvValue(provenance?.rawValue),
+          row.editedFields?.includes(column.key) ? "Yes" : "No",
+        ].join(","));
+      }
+    }
+
+    return [headers.map(h => escapeCsvValue(h)).join(","), ...rows].join("\n");
+  };
+
+  const handleExport = (options: { includeProvenance: boolean }) => {
+    if (extractedData.some(hasConflicts)) {
+      setPendingExport(options);
+      return;
+    }
+    exportCsv(options);
+  };
+
+  const exportCsv = ({ includeProvenance }: { includeProvenance: boolean }) => {
+    const headers = [...extractedColumns.map(column => column.label), "Itinerary"];
 
     // Add BOM for UTF-8 encoding recognition by Excel
     const BOM = "\uFEFF";
@@ -348,58 +873,58 @@ const Index = () => {
       headers.map(h => escapeCsvValue(h)).join(","),
       ...extractedData.map((row) =>
         [
-          escapeCsvValue(row.name),
-          escapeCsvValue(row.passportNumber),
-          escapeCsvDateValue(formatDate(row.dateOfBirth)),
-          escapeCsvValue(row.nationality),
-          escapeCsvDateValue(formatDate(row.passportIssueDate)),
-          escapeCsvDateValue(formatDate(row.expiryDate)),
-          escapeCsvValue(row.visaType || ""),
-          escapeCsvValue(row.flightNumber || ""),
-          escapeCsvValue(row.bookingReference || ""),
-          escapeCsvValue(row.ticketNumber || ""),
-          escapeCsvValue(row.departure || ""),
-          escapeCsvValue(row.arrival || ""),
-          escapeCsvValue(row.transitStop || ""),
-          escapeCsvValue(row.seatNumber || ""),
-          escapeCsvValue(row.inflightMeal || ""),
+          ...extractedColumns.map(column => {
+            const value = row[column.key] || "";
+            return column.isDate ? escapeCsvDateValue(formatDate(value)) : escapeCsvValue(value);
+          }),
+          escapeCsvValue((row.segments || []).map(formatSegment).join("; ")),
         ].join(",")
       ),
     ].join("\n");
 
-    const blob = new Blob([BOM + csvData], { type: "text/csv;charset=utf-8;" });
-    const url = window.URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = `extracted-data-${new Date().toISOString().split("T")[0]}.csv`;
-    a.click();
-    window.URL.revokeObjectURL(url);
+    const date = new Date().toISOString().split("T")[0];
+    audit({
+      action: "csv_exported",
+      passengers: extractedData.map(row => row.name),
+      details: { rowCount: extractedData.length, includeProvenance },
+    });
+    downloadCsv(BOM + csvData, `extracted-data-${date}.csv`);
+
+    if (includeProvenance) {
+      downloadCsv(BOM + buildProvenanceCsv(), `extracted-data-provenance-${date}.csv`);
+    }
 
     toast({
       title: "Export successful",
-      description: "Data exported to CSV file",
+      description: includeProvenance
+        ? "Data and provenance exported to CSV files"
+        : "Data exported to CSV file",
     });
   };
 
-  const totalFiles = getTotalFiles();
+  // New, changed and failed files; finished ones keep their results between runs
+  const pendingDocuments = documents.filter((d) => d.status !== "done");
+  const pendingCount = pendingDocuments.length;
+  const classifyingCount = pendingDocuments.filter((d) => d.classifying).length;
+  const untypedCount = pendingDocuments.filter((d) => !d.classifying && !d.documentType).length;
+
+  if (loadingBatch) {
+    return (
+      <div className="min-h-screen bg-background">
+        <AppHeader />
+        <main className="container mx-auto px-4 py-12">
+          <p className="flex items-center justify-center gap-2 text-muted-foreground">
+            <Loader2 className="h-5 w-5 animate-spin" />
+            Opening batch...
+          </p>
+        </main>
+      </div>
+    );
+  }
 
   return (
     <div className="min-h-screen bg-background">
-      <header className="border-b border-border bg-card">
-        <div className="container mx-auto px-4 py-6">
-          <div className="flex items-center gap-3">
-            <div className="rounded-lg bg-primary/10 p-2">
-              <FileText className="h-6 w-6 text-primary" />
-            </div>
-            <div>
-              <h1 className="text-2xl font-bold text-foreground">DocuScan AI</h1>
-              <p className="text-sm text-muted-foreground">
-                Automated document data extraction
-              </p>
-            </div>
-          </div>
-        </div>
-      </header>
+      <AppHeader />
 
       <main className="container mx-auto px-4 py-12">
         <div className="max-w-6xl mx-auto space-y-8">
@@ -408,69 +933,101 @@ const Index = () => {
               Extract Data from Documents Instantly
             </h2>
             <p className="text-lg text-muted-foreground max-w-2xl mx-auto">
-              Upload passports, visas, and flight tickets in their respective categories. 
-              Our AI automatically extracts all relevant information.
+              Drop passports, visas, and flight tickets together. Our AI identifies each
+              document and automatically extracts all relevant information.
             </p>
+            {batch && (
+              <p className="text-sm text-muted-foreground">
+                {batch.name} - saved automatically
+              </p>
+            )}
           </section>
 
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-            <div className="space-y-4">
-              <DocumentUpload 
-                onFilesSelected={(files) => handleFilesSelected("passport", files)} 
-                isProcessing={isProcessing}
-                documentType="passport"
-              />
-              <DocumentPreview 
-                files={filesByType.passport} 
-                onRemove={(index) => handleRemoveFile("passport", index)}
-                documentType="passport"
-                title="Passports"
-              />
-            </div>
-
-            <div className="space-y-4">
-              <DocumentUpload 
-                onFilesSelected={(files) => handleFilesSelected("visa", files)} 
-                isProcessing={isProcessing}
-                documentType="visa"
-              />
-              <DocumentPreview 
-                files={filesByType.visa} 
-                onRemove={(index) => handleRemoveFile("visa", index)}
-                documentType="visa"
-                title="Visas"
-              />
-            </div>
-
-            <div className="space-y-4">
-              <DocumentUpload 
-                onFilesSelected={(files) => handleFilesSelected("flight", files)} 
-                isProcessing={isProcessing}
-                documentType="flight"
-              />
-              <DocumentPreview 
-                files={filesByType.flight} 
-                onRemove={(index) => handleRemoveFile("flight", index)}
-                documentType="flight"
-                title="Flight Tickets"
-              />
-            </div>
+          <div className="space-y-4">
+            {canProcess ? (
+              <DocumentUpload onFilesSelected={handleFilesSelected} isProcessing={isProcessing} />
+            ) : (
+              <p className="text-center text-sm text-muted-foreground">
+                {batch
+                  ? "As a reviewer you can correct, merge, split and approve passengers; agents upload and process the documents."
+                  : "Reviewers work on batches agents have processed - open one from the Batches page."}
+              </p>
+            )}
+            <DocumentPreview
+              documents={documents}
+              onRemove={canProcess ? handleRemoveFile : undefined}
+              onChangeType={canProcess ? handleChangeType : undefined}
+              onRetry={canProcess ? handleRetry : undefined}
+              onReextract={canProcess ? handleReextract : undefined}
+              disabled={isProcessing}
+            />
           </div>
 
-          {totalFiles > 0 && extractedData.length === 0 && !isProcessing && (
-            <div className="flex justify-center">
-              <Button size="lg" onClick={handleProcess} className="gap-2">
+          {canProcess && pendingCount > 0 && !isProcessing && (
+            <div className="flex flex-col items-center gap-2">
+              <Button
+                size="lg"
+                onClick={handleProcess}
+                className="gap-2"
+                disabled={classifyingCount > 0 || untypedCount > 0}
+              >
                 <FileText className="h-5 w-5" />
-                Process {totalFiles} Document{totalFiles > 1 ? "s" : ""}
+                Process {pendingCount}{extractedData.length > 0 ? " New" : ""} Document{pendingCount > 1 ? "s" : ""}
               </Button>
+              {(classifyingCount > 0 || untypedCount > 0) && (
+                <p className="text-sm text-muted-foreground">
+                  {classifyingCount > 0
+                    ? `Detecting the type of ${classifyingCount} document(s)...`
+                    : `Choose a document type for ${untypedCount} document(s) before processing`}
+                </p>
+              )}
             </div>
           )}
 
+          {run && (
+            <ProcessingProgress
+              documents={documents.filter((d) => run.files.includes(d.file))}
+              startedAt={run.startedAt}
+              cancelling={run.cancelling}
+              onCancel={handleCancel}
+            />
+          )}
+
           <ExtractedDataTable
             data={extractedData}
             isProcessing={isProcessing}
             onExport={handleExport}
+            onUpdateField={canReview ? handleUpdateField : undefined}
+            onResolveConflict={canReview ? handleResolveConflict : undefined}
+            onMergeRows={canReview ? handleMergeRows : undefined}
+            onSplitRow={canReview ? handleSplitRow : undefined}
+            onApproveRow={canReview ? handleApproveRow : undefined}
+            allowProvenanceExport={organization.allowProvenanceExport}
           />
+
+          <AlertDialog open={pendingExport !== null} onOpenChange={(open) => !open && setPendingExport(null)}>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Unresolved conflicts</AlertDialogTitle>
+                <AlertDialogDescription>
+                  {extractedData.filter(hasConflicts).length} passenger(s) have documents that disagree on
+                  date of birth, nationality or passport details. The export will contain the first value
+                  found for each. Resolve the conflicts in the table, or export anyway.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Review conflicts</AlertDialogCancel>
+                <AlertDialogAction
+                  onClick={() => {
+                    if (pendingExport) exportCsv(pendingExport);
+                    setPendingExport(null);
+                  }}
+                >
+                  Export anyway
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
         </div>
       </main>
     </div>
@@ -0,0 +1,286 @@
+import { FormEvent, useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Loader2, Trash2, UserPlus } from "lucide-react";
+import { AppHeader } from "@/components/AppHeader";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import {
+  addMember,
+  listMembers,
+  OrganizationSettings,
+  removeMember,
+  renameOrganization,
+  setMemberRole,
+  updateOrganizationSettings,
+} from "@/lib/organizations";
+import { can, Role, roleLabels, ROLES } from "@/lib/permissions";
+
+const roleDescriptions: Record<Role, string> = {
+  agent: "uploads and processes documents",
+  reviewer: "edits, merges and approves passengers",
+  admin: "does both and manages the team",
+};
+
+const Organization = () => {
+  const { organization, user, refreshOrganizations } = useAuth();
+  const isAdmin = can(organization.role, "manage");
+  const [email, setEmail] = useState("");
+  const [newRole, setNewRole] = useState<Role>("agent");
+  const [name, setName] = useState(organization.name);
+  const [retentionDays, setRetentionDays] = useState(organization.retentionDays?.toString() ?? "");
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const membersKey = ["members", organization.id];
+
+  // Follow a switch to another agency from the header
+  useEffect(() => setName(organization.name), [organization.name]);
+  useEffect(() => setRetentionDays(organization.retentionDays?.toString() ?? ""), [organization.retentionDays]);
+
+  const { data: members = [], isLoading } = useQuery({
+    queryKey: membersKey,
+    queryFn: () => listMembers(organization.id),
+  });
+
+  const onError = (error: unknown) => toast({
+    title: "Team not updated",
+    description: error instanceof Error ? error.message : String(error),
+    variant: "destructive",
+  });
+
+  const add = useMutation({
+    mutationFn: ({ memberEmail, role }: { memberEmail: string; role: Role }) => addMember(organization.id, memberEmail, role),
+    onSuccess: (_, { memberEmail, role }) => {
+      setEmail("");
+      queryClient.invalidateQueries({ queryKey: membersKey });
+      toast({ title: "Member added", description: `${memberEmail} joined as ${roleLabels[role].toLowerCase()}` });
+    },
+    onError,
+  });
+
+  const changeRole = useMutation({
+    mutationFn: ({ userId, role }: { userId: string; role: Role }) => setMemberRole(organization.id, userId, role),
+    onSuccess: (_, { userId }) => {
+      queryClient.invalidateQueries({ queryKey: membersKey });
+      if (userId === user?.id) refreshOrganizations();
+    },
+    onError,
+  });
+
+  const remove = useMutation({
+    mutationFn: (userId: string) => removeMember(organization.id, userId),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: membersKey }),
+    onError,
+  });
+
+  const rename = useMutation({
+    mutationFn: (newName: string) => renameOrganization(organization.id, newName),
+    onSuccess: () => {
+      refreshOrganizations();
+      toast({ title: "Agency renamed" });
+    },
+    onError,
+  });
+
+  const saveSettings = useMutation({
+    mutationFn: (settings: OrganizationSettings) => updateOrganizationSettings(organization.id, settings),
+    onSuccess: () => {
+      refreshOrganizations();
+      toast({ title: "Settings saved" });
+    },
+    onError,
+  });
+
+  const handleAdd = (event: FormEvent) => {
+    event.preventDefault();
+    if (email.trim()) add.mutate({ memberEmail: email.trim(), role: newRole });
+  };
+
+  const handleRename = (event: FormEvent) => {
+    event.preventDefault();
+    if (name.trim() && name.trim() !== organization.name) rename.mutate(name.trim());
+  };
+
+  // Blank keeps batches until someone deletes them
+  const parsedRetention = retentionDays.trim() === "" ? null : Number(retentionDays);
+  const retentionValid = parsedRetention === null || (Number.isInteger(parsedRetention) && parsedRetention > 0);
+
+  const handleSaveRetention = (event: FormEvent) => {
+    event.preventDefault();
+    if (retentionValid) {
+      saveSettings.mutate({ retentionDays: parsedRetention, allowProvenanceExport: organization.allowProvenanceExport });
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <AppHeader />
+
+      <main className="container mx-auto px-4 py-12">
+        <div className="max-w-3xl mx-auto space-y-6">
+          <div>
+            <h2 className="text-3xl font-bold text-foreground">{organization.name}</h2>
+            <p className="text-muted-foreground">
+              You are {roleLabels[organization.role].toLowerCase()} here: an agent {roleDescriptions.agent}, a reviewer{" "}
+              {roleDescriptions.reviewer}, an admin {roleDescriptions.admin}
+            </p>
+          </div>
+
+          {isAdmin && (
+            <Card className="p-6 space-y-6">
+              <form onSubmit={handleRename} className="flex items-end gap-2">
+                <div className="flex-1 space-y-2">
+                  <Label htmlFor="agency-name">Agency name</Label>
+                  <Input id="agency-name" value={name} onChange={(event) => setName(event.target.value)} />
+                </div>
+                <Button type="submit" variant="outline" disabled={rename.isPending || !name.trim() || name.trim() === organization.name}>
+                  Rename
+                </Button>
+              </form>
+
+              <form onSubmit={handleSaveRetention} className="flex items-end gap-2">
+                <div className="flex-1 space-y-2">
+                  <Label htmlFor="retention-days">Delete batches after this many days without changes</Label>
+                  <Input
+                    id="retention-days"
+                    type="number"
+                    min={1}
+                    value={retentionDays}
+                    onChange={(event) => setRetentionDays(event.target.value)}
+                    placeholder="Keep until deleted"
+                  />
+                </div>
+                <Button
+                  type="submit"
+                  variant="outline"
+                  disabled={saveSettings.isPending || !retentionValid || parsedRetention === organization.retentionDays}
+                >
+                  Save
+                </Button>
+              </form>
+
+              <div className="flex items-center justify-between gap-4">
+                <div>
+                  <Label htmlFor="provenance-export">Allow provenance export</Label>
+                  <p className="text-xs text-muted-foreground">The provenance sheet lists raw values and source files for every field</p>
+                </div>
+                <Switch
+                  id="provenance-export"
+                  checked={organization.allowProvenanceExport}
+                  disabled={saveSettings.isPending}
+                  onCheckedChange={(allowProvenanceExport) =>
+                    saveSettings.mutate({ retentionDays: organization.retentionDays, allowProvenanceExport })
+                  }
+                />
+              </div>
+            </Card>
+          )}
+
+          <Card className="p-6 space-y-4">
+            {isAdmin && (
+              <>
+                <form onSubmit={handleAdd} className="flex items-end gap-2">
+                  <div className="flex-1 space-y-2">
+                    <Label htmlFor="member-email">Add a member by email</Label>
+                    <Input
+                      id="member-email"
+                      type="email"
+                      value={email}
+                      onChange={(event) => setEmail(event.target.value)}
+                      placeholder="colleague@agency.com"
+                    />
+                  </div>
+                  <Select value={newRole} onValueChange={(value) => setNewRole(value as Role)}>
+                    <SelectTrigger className="w-32" aria-label="Role">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {ROLES.map((role) => (
+                        <SelectItem key={role} value={role}>{roleLabels[role]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button type="submit" className="gap-2" disabled={add.isPending || !email.trim()}>
+                    <UserPlus className="h-4 w-4" />
+                    Add
+                  </Button>
+                </form>
+                <p className="text-xs text-muted-foreground">They need to have been invited to DocuScan AI already.</p>
+              </>
+            )}
+
+            {isLoading ? (
+              <p className="flex items-center gap-2 text-muted-foreground">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Loading members...
+              </p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Email</TableHead>
+                    <TableHead>Role</TableHead>
+                    <TableHead>Joined</TableHead>
+                    {isAdmin && <TableHead className="w-12" />}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {members.map((member) => (
+                    <TableRow key={member.userId}>
+                      <TableCell>{member.email}{member.userId === user?.id ? " (you)" : ""}</TableCell>
+                      <TableCell>
+                        {isAdmin ? (
+                          <Select
+                            value={member.role}
+                            disabled={changeRole.isPending}
+                            onValueChange={(value) => changeRole.mutate({ userId: member.userId, role: value as Role })}
+                          >
+                            <SelectTrigger className="h-8 w-32" aria-label={`Role of ${member.email}`}>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {ROLES.map((role) => (
+                                <SelectItem key={role} value={role}>{roleLabels[role]}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        ) : (
+                          roleLabels[member.role]
+                        )}
+                      </TableCell>
+                      <TableCell className="text-muted-foreground">
+                        {new Date(member.joinedAt).toLocaleDateString("en-GB", { day: "2-digit", month: "short", year: "numeric" })}
+                      </TableCell>
+                      {isAdmin && (
+                        <TableCell>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title={member.userId === user?.id ? "You cannot remove yourself" : "Remove"}
+                            className="text-destructive hover:text-destructive"
+                            disabled={member.userId === user?.id || remove.isPending}
+                            onClick={() => remove.mutate(member.userId)}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </Card>
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default Organization;
@@ -0,0 +1,5 @@
+// Confidence cut-off shared by the edge function, which caps scores it distrusts below it,
+// and the browser, which highlights the fields that fall under it.
+
+// Below this score a field is worth a human look
+export const LOW_CONFIDENCE_THRESHOLD = 0.7;
@@ -0,0 +1,267 @@
+// Country names, demonyms and codes mapped to ICAO 9303 / ISO 3166-1 alpha-3 codes. Shared by
+// the edge function (printed nationality against the MRZ) and the browser (nationality
+// conflicts between documents), since documents print "Pakistan", "Pakistani" or "PAK".
+
+// Code first, then every spelling that should resolve to it. Codes themselves always match.
+const COUNTRIES: string[][] = [
+  ["AFG", "Afghanistan", "Afghan"],
+  ["ALB", "Albania", "Albanian"],
+  ["DZA", "Algeria", "Algerian"],
+  ["AND", "Andorra", "Andorran"],
+  ["AGO", "Angola", "Angolan"],
+  ["ATG", "Antigua and Barbuda", "Antiguan"],
+  ["ARG", "Argentina", "Argentine", "Argentinian", "Argentina Republic"],
+  ["ARM", "Armenia", "Armenian"],
+  ["AUS", "Australia", "Australian"],
+  ["AUT", "Austria", "Austrian", "Osterreich", "Osterreichisch"],
+  ["AZE", "Azerbaijan", "Azerbaijani", "Azeri"],
+  ["BHS", "Bahamas", "Bahamian"],
+  ["BHR", "Bahrain", "Bahraini"],
+  ["BGD", "Bangladesh", "Bangladeshi"],
+  ["BRB", "Barbados", "Barbadian"],
+  ["BLR", "Belarus", "Belarusian"],
+  ["BEL", "Belgium", "Belgian", "Belge", "Belgique"],
+  ["BLZ", "Belize", "Belizean"],
+  ["BEN", "Benin", "Beninese"],
+  ["BTN", "Bhutan", "Bhutanese"],
+  ["BOL", "Bolivia", "Bolivian"],
+  ["BIH", "Bosnia and Herzegovina", "Bosnian"],
+  ["BWA", "Botswana", "Motswana", "Batswana"],
+  ["BRA", "Brazil", "Brazilian", "Brasil", "Brasileira", "Brasileiro"],
+  ["BRN", "Brunei", "Brunei Darussalam", "Bruneian"],
+  ["BGR", "Bulgaria", "Bulgarian"],
+  ["BFA", "Burkina Faso", "Burkinabe"],
+  ["BDI", "Burundi", "Burundian"],
+  ["KHM", "Cambodia", "Cambodian"],
+  ["CMR", "Cameroon", "Cameroonian"],
+  ["CAN", "Canada", "Canadian", "Canadienne", "Canadien"],
+  ["CPV", "Cape Verde", "Cabo Verde", "Cape Verdean"],
+  ["CAF", "Central African Republic", "Central African"],
+  ["TCD", "Chad", "Chadian"],
+  ["CHL", "Chile", "Chilean"],
+  ["CHN", "China", "Chinese", "People's Republic of China"],
+  ["COL", "Colombia", "Colombian"],
+  ["COM", "Comoros", "Comorian"],
+  ["COG", "Congo", "Republic of the Congo", "Congolese"],
+  ["COD", "Democratic Republic of the Congo", "DR Congo", "Congo Democratic Republic"],
+  ["CRI", "Costa Rica", "Costa Rican"],
+  ["CIV", "Cote d'Ivoire", "Ivory Coast", "Ivorian"],
+  ["HRV", "Croatia", "Croatian", "Hrvatska"],
+  ["CUB", "Cuba", "Cuban"],
+  ["CYP", "Cyprus", "Cypriot"],
+  ["CZE", "Czechia", "Czech Republic", "Czech"],
+  ["DNK", "Denmark", "Danish", "Dansk"],
+  ["DJI", "Djibouti", "Djiboutian"],
+  ["DMA", "Dominica"],
+  ["DOM", "Dominican Republic", "Dominican"],
+  ["ECU", "Ecuador", "Ecuadorian"],
+  ["EGY", "Egypt", "Egyptian", "Arab Republic of Egypt"],
+  ["SLV", "El Salvador", "Salvadoran"],
+  ["GNQ", "Equatorial Guinea", "Equatoguinean"],
+  ["ERI", "Eritrea", "Eritrean"],
+  ["EST", "Estonia", "Estonian"],
+  ["SWZ", "Eswatini", "Swaziland", "Swazi"],
+  ["ETH", "Ethiopia", "Ethiopian"],
+  ["FJI", "Fiji", "Fijian"],
+  ["FIN", "Finland", "Finnish", "Suomi"],
+  ["FRA", "France", "French", "Francaise", "Francais"],
+  ["GAB", "Gabon", "Gabonese"],
+  ["GMB", "Gambia", "The Gambia", "Gambian"],
+  ["GEO", "Georgia", "Georgian"],
+  ["DEU", "Germany", "German", "Deutsch", "Deutschland", "Federal Republic of Germany", "D"],
+  ["GHA", "Ghana", "Ghanaian"],
+  ["GRC", "Greece", "Greek", "Hellenic", "Hellenic Republic"],
+  ["GRD", "Grenada", "Grenadian"],
+  ["GTM", "Guatemala", "Guatemalan"],
+  ["GIN", "Guinea", "Guinean"],
+  ["GNB", "Guinea-Bissau", "Bissau-Guinean"],
+  ["GUY", "Guyana", "Guyanese"],
+  ["HTI", "Haiti", "Haitian"],
+  ["HND", "Honduras", "Honduran"],
+  ["HKG", "Hong Kong", "Hong Konger"],
+  ["HUN", "Hungary", "Hungarian", "Magyar"],
+  ["ISL", "Iceland", "Icelandic", "Icelander"],
+  ["IND", "India", "Indian", "Republic of India"],
+  ["IDN", "Indonesia", "Indonesian"],
+  ["IRN", "Iran", "Iranian", "Islamic Republic of Iran"],
+  ["IRQ", "Iraq", "Iraqi"],
+  ["IRL", "Ireland", "Irish", "Eire"],
+  ["ISR", "Israel", "Israeli"],
+  ["ITA", "Italy", "Italian", "Italiana", "Italiano", "Italia"],
+  ["JAM", "Jamaica", "Jamaican"],
+  ["JPN", "Japan", "Japanese"],
+  ["JOR", "Jordan", "Jordanian", "Hashemite Kingdom of Jordan"],
+  ["KAZ", "Kazakhstan", "Kazakh", "Kazakhstani"],
+  ["KEN", "Kenya", "Kenyan"],
+  ["KIR", "Kiribati", "I-Kiribati"],
+  ["PRK", "North Korea", "Democratic People's Republic of Korea"],
+  ["KOR", "South Korea", "Korea", "Republic of Korea", "Korean", "South Korean"],
+  ["RKS", "Kosovo", "Kosovar"],
+  ["KWT", "Kuwait", "Kuwaiti"],
+  ["KGZ", "Kyrgyzstan", "Kyrgyz"],
+  ["LAO", "Laos", "Lao", "Lao People's Democratic Republic"],
+  ["LVA", "Latvia", "Latvian"],
+  ["LBN", "Lebanon", "Lebanese"],
+  ["LSO", "Lesotho", "Basotho", "Mosotho"],
+  ["LBR", "Liberia", "Liberian"],
+  ["LBY", "Libya", "Libyan"],
+  ["LIE", "Liechtenstein", "Liechtensteiner"],
+  ["LTU", "Lithuania", "Lithuanian"],
+  ["LUX", "Luxembourg", "Luxembourgish", "Luxembourger"],
+  ["MAC", "Macao", "Macau", "Macanese"],
+  ["MDG", "Madagascar", "Malagasy"],
+  ["MWI", "Malawi", "Malawian"],
+  ["MYS", "Malaysia", "Malaysian"],
+  ["MDV", "Maldives", "Maldivian"],
+  ["MLI", "Mali", "Malian"],
+  ["MLT", "Malta", "Maltese"],
+  ["MHL", "Marshall Islands", "Marshallese"],
+  ["MRT", "Mauritania", "Mauritanian"],
+  ["MUS", "Mauritius", "Mauritian"],
+  ["MEX", "Mexico", "Mexican", "Mexicana", "Mexicano"],
+  ["FSM", "Micronesia", "Micronesian"],
+  ["MDA", "Moldova", "Moldovan"],
+  ["MCO", "Monaco", "Monegasque"],
+  ["MNG", "Mongolia", "Mongolian"],
+  ["MNE", "Montenegro", "Montenegrin"],
+  ["MAR", "Morocco", "Moroccan"],
+  ["MOZ", "Mozambique", "Mozambican"],
+  ["MMR", "Myanmar", "Burma", "Burmese"],
+  ["NAM", "Namibia", "Namibian"],
+  ["NRU", "Nauru", "Nauruan"],
+  ["NPL", "Nepal", "Nepali", "Nepalese"],
+  ["NLD", "Netherlands", "Dutch", "Nederland", "Nederlandse", "Holland"],
+  ["NZL", "New Zealand", "New Zealander"],
+  ["NIC", "Nicaragua", "Nicaraguan"],
+  ["NER", "Niger", "Nigerien"],
+  ["NGA", "Nigeria", "Nigerian"],
+  ["MKD", "North Macedonia", "Macedonia", "Macedonian"],
+  ["NOR", "Norway", "Norwegian", "Norsk"],
+  ["OMN", "Oman", "Omani"],
+  ["PAK", "Pakistan", "Pakistani", "Islamic Republic of Pakistan"],
+  ["PLW", "Palau", "Palauan"],
+  ["PSE", "Palestine", "Palestinian", "State of Palestine"],
+  ["PAN", "Panama", "Panamanian"],
+  ["PNG", "Papua New Guinea", "Papua New Guinean"],
+  ["PRY", "Paraguay", "Paraguayan"],
+  ["PER", "Peru", "Peruvian"],
+  ["PHL", "Philippines", "Filipino", "Filipina", "Philippine"],
+  ["POL", "Poland", "Polish", "Polska", "Polskie"],
+  ["PRT", "Portugal", "Portuguese", "Portuguesa"],
+  ["QAT", "Qatar", "Qatari"],
+  ["ROU", "Romania", "Romanian", "Romana"],
+  ["RUS", "Russia", "Russian", "Russian Federation"],
+  ["RWA", "Rwanda", "Rwandan"],
+  ["KNA", "Saint Kitts and Nevis", "Kittitian"],
+  ["LCA", "Saint Lucia", "Saint Lucian"],
+  ["VCT", "Saint Vincent and the Grenadines", "Vincentian"],
+  ["WSM", "Samoa", "Samoan"],
+  ["SMR", "San Marino", "Sammarinese"],
+  ["STP", "Sao Tome and Principe", "Santomean"],
+  ["SAU", "Saudi Arabia", "Saudi", "Saudi Arabian", "Kingdom of Saudi Arabia"],
+  ["SEN", "Senegal", "Senegalese"],
+  ["SRB", "Serbia", "Serbian"],
+  ["SYC", "Seychelles", "Seychellois"],
+  ["SLE", "Sierra Leone", "Sierra Leonean"],
+  ["SGP", "Singapore", "Singaporean"],
+  ["SVK", "Slovakia", "Slovak", "Slovak Republic"],
+  ["SVN", "Slovenia", "Slovenian", "Slovene"],
+  ["SLB", "Solomon Islands", "Solomon Islander"],
+  ["SOM", "Somalia", "Somali"],
+  ["ZAF", "South Africa", "South African"],
+  ["SSD", "South Sudan", "South Sudanese"],
+  ["ESP", "Spain", "Spanish", "Espana", "Espanola", "Espanol"],
+  ["LKA", "Sri Lanka", "Sri Lankan"],
+  ["SDN", "Sudan", "Sudanese"],
+  ["SUR", "Suriname", "Surinamese"],
+  ["SWE", "Sweden", "Swedish", "Sverige", "Svensk"],
+  ["CHE", "Switzerland", "Swiss", "Schweiz", "Suisse", "Svizzera"],
+  ["SYR", "Syria", "Syrian", "Syrian Arab Republic"],
+  ["TWN", "Taiwan", "Taiwanese", "Chinese Taipei"],
+  ["TJK", "Tajikistan", "Tajik"],
+  ["TZA", "Tanzania", "Tanzanian", "United Republic of Tanzania"],
+  ["THA", "Thailand", "Thai"],
+  ["TLS", "Timor-Leste", "East Timor", "Timorese"],
+  ["TGO", "Togo", "Togolese"],
+  ["TON", "Tonga", "Tongan"],
+  ["TTO", "Trinidad and Tobago", "Trinidadian", "Tobagonian"],
+  ["TUN", "Tunisia", "Tunisian"],
+  ["TUR", "Turkey", "Turkiye", "Turkish"],
+  ["TKM", "Turkmenistan", "Turkmen"],
+  ["TUV", "Tuvalu", "Tuvaluan"],
+  ["UGA", "Uganda", "Ugandan"],
+  ["UKR", "Ukraine", "Ukrainian"],
+  ["ARE", "United Arab Emirates", "UAE", "Emirati"],
+  ["GBR", "United Kingdom", "UK", "Great Britain", "Britain", "British",
+    "United Kingdom of Great Britain and Northern Ireland"],
+  ["GBD", "British Overseas Territories Citizen", "British Dependent Territories Citizen"],
+  ["GBN", "British National (Overseas)"],
+  ["GBO", "British Overseas Citizen"],
+  ["GBP", "British Protected Person"],
+  ["GBS", "British Subject"],
+  ["USA", "United States", "United States of America", "US", "America", "American"],
+  ["URY", "Uruguay", "Uruguayan"],
+  ["UZB", "Uzbekistan", "Uzbek"],
+  ["VUT", "Vanuatu", "Ni-Vanuatu"],
+  ["VAT", "Holy See", "Vatican", "Vatican City"],
+  ["VEN", "Venezuela", "Venezuelan"],
+  ["VNM", "Vietnam", "Viet Nam", "Vietnamese"],
+  ["YEM", "Yemen", "Yemeni"],
+  ["ZMB", "Zambia", "Zambian"],
+  ["ZWE", "Zimbabwe", "Zimbabwean"],
+  ["XXA", "Stateless", "Stateless Person"],
+  ["XXB", "Refugee"],
+];
+
+const letters = (value: string): string =>
+  value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toUpperCase()
+    .replace(/[^A-Z]+/g, " ")
+    .trim();
+
+// Words that say nothing about which country is meant, as in "BRITISH CITIZEN"
+const FILLER_WORDS = /\b(CITIZEN|NATIONAL|NATIONALITY|THE|OF|REPUBLIC)\b/g;
+
+const withoutFiller = (value: string): string => letters(value).replace(FILLER_WORDS, " ").replace(/\s+/g, " ").trim();
+
+const CODES = new Set(COUNTRIES.map(([code]) => code));
+
+// Exact spellings first, so "British Overseas Citizen" and "British National (Overseas)"
+// stay apart; the first entry wins when two names collide once filler words are dropped
+const EXACT = new Map<string, string>();
+const LOOSE = new Map<string, string>();
+for (const [code, ...names] of COUNTRIES) {
+  for (const name of names) {
+    if (!EXACT.has(letters(name))) EXACT.set(letters(name), code);
+    if (withoutFiller(name) && !LOOSE.has(withoutFiller(name))) LOOSE.set(withoutFiller(name), code);
+  }
+}
+
+/**
+ * Alpha-3 code for a printed nationality or country, or null when it is not recognised.
+ * Bilingual fields such as "CANADIAN/CANADIENNE" are tried part by part.
+ */
+export const toCountryCode = (value: string | undefined | null): string | null => {
+  if (!value) return null;
+  const compact = value.toUpperCase().replace(/</g, "").trim();
+  if (CODES.has(compact)) return compact;
+
+  for (const part of [value, ...value.split(/[/,;]/)]) {
+    const code = EXACT.get(letters(part)) ?? LOOSE.get(withoutFiller(part));
+    if (code) return code;
+  }
+  return null;
+};
+
+/**
+ * Whether two nationality readings name the same country. Values that cannot be mapped
+ * fall back to comparing their letters, so unknown spellings still count as different.
+ */
+export const sameCountry = (a: string, b: string): boolean => {
+  const codeA = toCountryCode(a);
+  const codeB = toCountryCode(b);
+  if (codeA && codeB) return codeA === codeB;
+  return withoutFiller(a) === withoutFiller(b);
+};
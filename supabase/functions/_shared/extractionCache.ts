@@ -0,0 +1,19 @@
+// Cache keys for extraction results, shared by the edge function and the browser so both
+// caches agree on when an earlier answer still applies.
+
+/**
+ * Bump whenever a change to the prompts or the extraction schema would change what the
+ * model returns for the same image; older cache entries then stop matching.
+ */
+export const EXTRACTION_PROMPT_VERSION = "2026-10-18";
+
+// Hex SHA-256 of base64-encoded image bytes
+export const sha256Hex = async (base64: string): Promise<string> => {
+  const bytes = Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+  const digest = await crypto.subtle.digest("SHA-256", bytes);
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+};
+
+// The same image read as a different document type gets a different prompt, so the type is part of the key
+export const extractionCacheKey = (sha256: string, documentType: string): string =>
+  `${EXTRACTION_PROMPT_VERSION}/${documentType}/${sha256}`;
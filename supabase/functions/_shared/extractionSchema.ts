@@ -0,0 +1,161 @@
+// Shape of extraction results, shared by the extract-document-data edge function (which
+// validates model output against it) and the web client (whose ExtractedData builds on it).
+// Keep this file free of runtime-specific imports: it is loaded by both Deno and Vite.
+
+import { z } from "zod";
+
+export const DOCUMENT_KINDS = ["passport", "visa", "flight"] as const;
+export type DocumentKind = (typeof DOCUMENT_KINDS)[number];
+
+const DATE_PATTERN = /^\d{2}-[A-Za-z]{3}-\d{4}$/;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+// The model is loose about representation: null or a missing key means "", numbers become strings
+const text = z.preprocess(
+  (value) => (value == null ? "" : typeof value === "number" ? String(value) : value),
+  z.string({ invalid_type_error: "Expected a string" }).trim(),
+);
+const date = text.refine((value) => value === "" || DATE_PATTERN.test(value), {
+  message: 'Expected a DD-MMM-YYYY date (e.g., 15-Mar-1990) or ""',
+});
+const time = text.refine((value) => value === "" || TIME_PATTERN.test(value), {
+  message: 'Expected an HH:MM 24-hour time (e.g., 09:45) or ""',
+});
+
+// Every flat passenger field a record can carry, whatever document it came from
+export const extractedRecordSchema = z.object({
+  name: text,
+  passportNumber: text,
+  dateOfBirth: date,
+  nationality: text,
+  passportIssueDate: date,
+  expiryDate: date, // passport expiry
+  visaType: text,
+  visaExpiryDate: date,
+  flightNumber: text,
+  bookingReference: text,
+  ticketNumber: text,
+  departure: text,
+  arrival: text,
+  transitStop: text,
+  departureDate: date, // first segment departure
+  departureTime: time,
+  arrivalDate: date, // last segment arrival
+  arrivalTime: time,
+  seatNumber: text,
+  inflightMeal: text,
+});
+
+export type ExtractedRecord = z.infer<typeof extractedRecordSchema>;
+
+// Fields every record has; the rest only come from some document types
+type CoreField = "name" | "passportNumber" | "dateOfBirth" | "nationality" | "expiryDate";
+export type ExtractedFields = Pick<ExtractedRecord, CoreField> & Partial<Omit<ExtractedRecord, CoreField>>;
+
+export const flightSegmentSchema = z.object({
+  flightNumber: text,
+  date: date, // departure date
+  origin: text,
+  destination: text,
+  departureTime: time, // local time
+  arrivalDate: date, // differs from date on overnight flights
+  arrivalTime: time, // local time
+});
+
+export type FlightSegment = z.infer<typeof flightSegmentSchema>;
+
+const fields = extractedRecordSchema.shape;
+
+// What each extraction prompt asks the model to return. Unlisted keys (fieldConfidence,
+// fieldBoxes, ...) pass through for their own sanitizers.
+const passportSchema = z.object({
+  name: fields.name,
+  passportNumber: fields.passportNumber,
+  dateOfBirth: fields.dateOfBirth,
+  nationality: fields.nationality,
+  passportIssueDate: fields.passportIssueDate,
+  expiryDate: fields.expiryDate,
+  mrzLine1: text,
+  mrzLine2: text,
+}).passthrough();
+
+const visaSchema = z.object({
+  name: fields.name,
+  passportNumber: fields.passportNumber,
+  dateOfBirth: fields.dateOfBirth,
+  nationality: fields.nationality,
+  expiryDate: fields.expiryDate,
+  visaType: fields.visaType,
+  visaExpiryDate: fields.visaExpiryDate,
+}).passthrough();
+
+const bookingPassengerSchema = z.object({
+  name: fields.name,
+  ticketNumber: fields.ticketNumber,
+  seatNumber: fields.seatNumber,
+  inflightMeal: fields.inflightMeal,
+  segmentIndexes: z.array(z.coerce.number().int().nonnegative()).default([]),
+}).passthrough();
+
+const flightSchema = z.object({
+  bookingReference: fields.bookingReference,
+  segments: z.array(flightSegmentSchema).default([]),
+  passengers: z.array(bookingPassengerSchema).default([]),
+}).passthrough();
+
+// The generic prompt may return any subset of the flat fields
+const unknownDocumentSchema = extractedRecordSchema.partial().passthrough();
+
+export const EXTRACTION_SCHEMAS = {
+  passport: passportSchema,
+  visa: visaSchema,
+  flight: flightSchema,
+  unknown: unknownDocumentSchema,
+};
+
+export interface SchemaIssue {
+  field: string; // e.g. "segments[1].date", or "$" for the response as a whole
+  message: string;
+}
+
+export type SchemaResult =
+  | { success: true; data: Record<string, unknown> }
+  | { success: false; issues: SchemaIssue[] };
+
+const formatPath = (path: (string | number)[]): string => {
+  if (path.length === 0) return "$";
+  return path.reduce<string>(
+    (result, part) => (typeof part === "number" ? `${result}[${part}]` : result ? `${result}.${part}` : part),
+    "",
+  );
+};
+
+/**
+ * Pull the JSON object out of a model reply, tolerating markdown fences and any text
+ * around the object.
+ */
+export const parseModelJson = (content: string): SchemaResult => {
+  const start = content.indexOf("{");
+  const end = content.lastIndexOf("}");
+  if (start === -1 || end <= start) {
+    return { success: false, issues: [{ field: "$", message: "Response does not contain a JSON object" }] };
+  }
+
+  try {
+    const data = JSON.parse(content.slice(start, end + 1));
+    return { success: true, data };
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : "invalid JSON";
+    return { success: false, issues: [{ field: "$", message: `Response is not valid JSON: ${reason}` }] };
+  }
+};
+
+export const validateExtraction = (kind: DocumentKind | "unknown", raw: unknown): SchemaResult => {
+  const result = EXTRACTION_SCHEMAS[kind].safeParse(raw);
+  if (result.success) return { success: true, data: result.data };
+
+  return {
+    success: false,
+    issues: result.error.issues.map((issue) => ({ field: formatPath(issue.path), message: issue.message })),
+  };
+};
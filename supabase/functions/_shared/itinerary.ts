@@ -0,0 +1,55 @@
+// The flat flight fields of an itinerary, shared by the edge function (one booking) and the
+// browser (the segments of every document of one passenger).
+
+import type { ExtractedRecord, FlightSegment } from "./extractionSchema.ts";
+
+export type ItinerarySummary = Pick<
+  ExtractedRecord,
+  "flightNumber" | "departure" | "arrival" | "transitStop" | "departureDate" | "departureTime" | "arrivalDate" | "arrivalTime"
+>;
+
+// "Lahore LHE" and "LHE" are the same place; prefer the airport code when one is present
+export const placeKey = (place: string): string => {
+  const code = /\b[A-Z]{3}\b/.exec(place);
+  return code ? code[0] : place.trim().toUpperCase();
+};
+
+/**
+ * Where the journey turns back: the first segment flying to a place the traveller
+ * already departed from, e.g. DXB-LHE in LHE-DXB, DXB-LHE. -1 for one-way trips.
+ */
+const returnLegStart = (segments: FlightSegment[]): number => {
+  const origins = new Set<string>();
+  for (const [index, segment] of segments.entries()) {
+    if (segment.origin) origins.add(placeKey(segment.origin));
+    if (index > 0 && segment.destination && origins.has(placeKey(segment.destination))) return index;
+  }
+  return -1;
+};
+
+/**
+ * Flatten an itinerary into the single-value flight fields: every flight number, first
+ * origin, final destination and the connection points in between, with the travel dates
+ * of the first departure and the arrival there. A round trip is summarized by its
+ * outbound journey, so LHE-DXB, DXB-LHE arrives in DXB; the return leg stays in the
+ * segments.
+ */
+export const summarizeSegments = (segments: FlightSegment[]): ItinerarySummary | null => {
+  if (segments.length === 0) return null;
+
+  const returnStart = returnLegStart(segments);
+  const outbound = returnStart === -1 ? segments : segments.slice(0, returnStart);
+  const first = outbound[0];
+  const last = outbound[outbound.length - 1];
+
+  return {
+    flightNumber: outbound.map((s) => s.flightNumber).filter(Boolean).join(", "),
+    departure: first.origin,
+    arrival: last.destination,
+    transitStop: outbound.slice(0, -1).map((s) => s.destination).filter(Boolean).join(", "),
+    departureDate: first.date,
+    departureTime: first.departureTime,
+    arrivalDate: last.arrivalDate,
+    arrivalTime: last.arrivalTime,
+  };
+};
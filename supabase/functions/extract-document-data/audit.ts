@@ -0,0 +1,36 @@
+// Extractions go into the agency's audit trail from here rather than from the browser,
+// so the model and prompt version recorded are the ones that actually produced the data.
+
+import { EXTRACTION_PROMPT_VERSION } from "../_shared/extractionCache.ts";
+import type { Caller } from "./auth.ts";
+
+export interface ExtractionAudit {
+  organizationId: string;
+  batchId?: string;
+  fileName?: string;
+  documentType: string;
+  model: string | null;
+  cached: boolean;
+  passengers: string[];
+}
+
+// Written as the caller; the table stamps user and time itself. A failed write fails the
+// extraction, since the data must not reach anyone without a trace.
+export const recordExtraction = async ({ client }: Caller, event: ExtractionAudit): Promise<void> => {
+  const { error } = await client.from("audit_events").insert({
+    organization_id: event.organizationId,
+    batch_id: event.batchId ?? null,
+    action: "document_extracted",
+    passengers: event.passengers.filter(Boolean).join(", ") || null,
+    details: {
+      fileName: event.fileName,
+      documentType: event.documentType,
+      model: event.model,
+      promptVersion: EXTRACTION_PROMPT_VERSION,
+      cached: event.cached,
+    },
+  });
+  if (error) {
+    throw new Error(`Audit log write failed: ${error.message}`);
+  }
+};
@@ -0,0 +1,54 @@
+// Who is calling. verify_jwt only proves the token was signed by this project, and the
+// anon key passes that too, so the function also insists on a signed-in user, and on a
+// role in the agency the request is made for.
+
+import { createClient, type SupabaseClient, type User } from "@supabase/supabase-js";
+import { RequestError } from "./errors.ts";
+
+// Extraction and classification are part of uploading and processing
+export const PROCESSING_ROLES = ["agent", "admin"];
+
+export interface Caller {
+  user: User;
+  client: SupabaseClient; // acts as the caller, so row-level security applies
+}
+
+export const requireUser = async (req: Request, env: (key: string) => string | undefined): Promise<Caller> => {
+  const authorization = req.headers.get("Authorization");
+  const token = authorization?.replace(/^Bearer\s+/i, "");
+  if (!authorization || !token) {
+    throw new RequestError("Sign in to extract documents", 401, "UNAUTHORIZED");
+  }
+
+  const url = env("SUPABASE_URL");
+  const anonKey = env("SUPABASE_ANON_KEY");
+  if (!url || !anonKey) {
+    throw new Error("SUPABASE_URL or SUPABASE_ANON_KEY not configured");
+  }
+
+  const client = createClient(url, anonKey, {
+    auth: { persistSession: false },
+    global: { headers: { Authorization: authorization } },
+  });
+  const { data, error } = await client.auth.getUser(token);
+  if (error || !data.user) {
+    throw new RequestError("Your session has expired; sign in again", 401, "UNAUTHORIZED");
+  }
+  return { user: data.user, client };
+};
+
+export const requireRole = async ({ client }: Caller, organizationId: unknown, roles: string[]): Promise<void> => {
+  if (typeof organizationId !== "string" || !organizationId) {
+    throw new RequestError("organizationId is required", 400, "MISSING_ORGANIZATION");
+  }
+
+  const { data, error } = await client.rpc("has_org_role", { org: organizationId, roles });
+  if (error) {
+    throw new Error(`Role check failed: ${error.message}`);
+  }
+  if (!data) {
+    throw new RequestError("Your role in this agency cannot process documents", 403, "FORBIDDEN", {
+      requiredRoles: roles,
+    });
+  }
+};
@@ -0,0 +1,72 @@
+// Many documents in one request: fanned out with bounded concurrency and streamed back
+// as NDJSON, one line per document as soon as it finishes, then a final "done" line.
+
+import { RequestError } from "./errors.ts";
+import type { SignedExtraction } from "./extractions.ts";
+
+export const MAX_BATCH_DOCUMENTS = 20;
+
+export interface BatchDocument {
+  id: string; // echoed back so the caller can match results to its files and pages
+  image?: string;
+  signed?: SignedExtraction; // a page the caller answered from its own cache, instead of the image
+  fileName?: string;
+  documentType?: string;
+  force?: boolean;
+  documentId?: string; // the page's document row in the request's batch, to store the extraction under
+  page?: number;
+}
+
+export type BatchEvent =
+  | { type: "result"; id: string; records: unknown[]; cached: boolean; model: string | null; signature: string }
+  | { type: "error"; id: string; status: number; error: string; code: string; details?: Record<string, unknown> }
+  | { type: "done"; count: number };
+
+export const parseBatchDocuments = (raw: unknown): BatchDocument[] => {
+  if (!Array.isArray(raw) || raw.length === 0) {
+    throw new RequestError("documents must be a non-empty array", 400, "INVALID_BATCH");
+  }
+  if (raw.length > MAX_BATCH_DOCUMENTS) {
+    throw new RequestError(`A batch can hold at most ${MAX_BATCH_DOCUMENTS} documents`, 400, "BATCH_TOO_LARGE", {
+      received: raw.length,
+      max: MAX_BATCH_DOCUMENTS,
+    });
+  }
+
+  const invalidIndexes = raw
+    .map((entry, index) => (entry && typeof entry.id === "string" && (entry.image || entry.signed) ? -1 : index))
+    .filter((index) => index !== -1);
+  if (invalidIndexes.length > 0) {
+    throw new RequestError("Every document needs an id and an image or signed records", 400, "INVALID_BATCH", { invalidIndexes });
+  }
+
+  return raw as BatchDocument[];
+};
+
+export const mapWithConcurrency = async <T>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T) => Promise<void>,
+): Promise<void> => {
+  let next = 0;
+  const runner = async () => {
+    while (next < items.length) {
+      await worker(items[next++]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, runner));
+};
+
+export const ndjsonStream = (produce: (send: (event: BatchEvent) => void) => Promise<void>): ReadableStream<Uint8Array> => {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    async start(controller) {
+      const send = (event: BatchEvent) => controller.enqueue(encoder.encode(JSON.stringify(event) + "\n"));
+      try {
+        await produce(send);
+      } finally {
+        controller.close();
+      }
+    },
+  });
+};
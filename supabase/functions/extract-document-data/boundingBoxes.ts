@@ -0,0 +1,40 @@
+// Where on the page each extracted value was read, so the UI can point at it.
+
+export const BOUNDING_BOX_INSTRUCTIONS = `
+
+FIELD LOCATIONS:
+Also include a "fieldBoxes" object keyed by field name, with one entry for every non-empty field you extracted.
+Each entry is the box around the printed value (not its label) as [ymin, xmin, ymax, xmax], in coordinates normalized to 0-1000 relative to the image.
+- Do NOT include MRZ lines in fieldBoxes
+- Omit a field from fieldBoxes if you cannot locate it on the image`;
+
+// Fractions of the image size, origin at the top-left corner
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const clamp = (value: number): number => Math.min(1, Math.max(0, value));
+
+export const sanitizeBoundingBoxes = (
+  raw: unknown,
+  fields: Record<string, unknown>,
+): Record<string, BoundingBox> => {
+  const result: Record<string, BoundingBox> = {};
+  if (!raw || typeof raw !== "object") return result;
+
+  for (const [field, entry] of Object.entries(raw as Record<string, unknown>)) {
+    if (!(field in fields) || typeof fields[field] !== "string" || !fields[field]) continue;
+    if (!Array.isArray(entry) || entry.length !== 4) continue;
+
+    const [ymin, xmin, ymax, xmax] = entry.map((v) => clamp(Number(v) / 1000));
+    if ([ymin, xmin, ymax, xmax].some((v) => Number.isNaN(v))) continue;
+    if (xmax <= xmin || ymax <= ymin) continue;
+
+    result[field] = { x: xmin, y: ymin, width: xmax - xmin, height: ymax - ymin };
+  }
+
+  return result;
+};
@@ -0,0 +1,59 @@
+// Optional server-side cache of extraction results in the extraction_cache table, so the
+// same page image is only sent to the model once per prompt version across all browsers.
+
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+import { EXTRACTION_PROMPT_VERSION, extractionCacheKey, sha256Hex } from "../_shared/extractionCache.ts";
+
+export interface CachedExtraction {
+  records: unknown[];
+  model: string | null; // null for entries written before the model was recorded
+}
+
+export interface ExtractionCache {
+  key: (image: string, documentType: string) => Promise<string>;
+  get: (key: string) => Promise<CachedExtraction | null>;
+  set: (key: string, documentType: string, extraction: CachedExtraction) => Promise<void>;
+}
+
+const TABLE = "extraction_cache";
+
+// Cache failures are logged and treated as misses; extraction never fails because of them
+export const createSupabaseCache = (client: SupabaseClient): ExtractionCache => ({
+  key: async (image, documentType) => extractionCacheKey(await sha256Hex(image), documentType),
+
+  get: async (key) => {
+    const { data, error } = await client.from(TABLE).select("records, model").eq("cache_key", key).maybeSingle();
+    if (error) {
+      console.error("Extraction cache read failed:", error.message);
+      return null;
+    }
+    return data ? { records: data.records, model: data.model } : null;
+  },
+
+  set: async (key, documentType, { records, model }) => {
+    const { error } = await client.from(TABLE).upsert({
+      cache_key: key,
+      document_type: documentType,
+      prompt_version: EXTRACTION_PROMPT_VERSION,
+      records,
+      model,
+    });
+    if (error) console.error("Extraction cache write failed:", error.message);
+  },
+});
+
+/**
+ * EXTRACTION_CACHE=supabase turns the table cache on. It uses the service role key the
+ * platform injects, since the table has no policies for browser clients.
+ */
+export const cacheFromEnv = (env: (key: string) => string | undefined): ExtractionCache | null => {
+  if (env("EXTRACTION_CACHE") !== "supabase") return null;
+
+  const url = env("SUPABASE_URL");
+  const serviceRoleKey = env("SUPABASE_SERVICE_ROLE_KEY");
+  if (!url || !serviceRoleKey) {
+    console.warn("EXTRACTION_CACHE=supabase but SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY is missing; caching disabled");
+    return null;
+  }
+  return createSupabaseCache(createClient(url, serviceRoleKey, { auth: { persistSession: false } }));
+};
@@ -0,0 +1,30 @@
+// Deciding which extraction prompt a document needs.
+
+import { DOCUMENT_KINDS, type DocumentKind } from "../_shared/extractionSchema.ts";
+
+export interface Classification {
+  documentType: DocumentKind | "unknown";
+  confidence: number;
+  reason: string;
+}
+
+export const sanitizeClassification = (raw: unknown): Classification => {
+  const entry = raw && typeof raw === "object" ? (raw as Record<string, unknown>) : {};
+  const type = typeof entry.documentType === "string" ? entry.documentType.trim().toLowerCase() : "";
+  const score = Number(entry.confidence);
+
+  return {
+    documentType: DOCUMENT_KINDS.includes(type as DocumentKind) ? (type as DocumentKind) : "unknown",
+    confidence: Number.isFinite(score) ? Math.min(1, Math.max(0, score)) : 0,
+    reason: typeof entry.reason === "string" ? entry.reason.trim() : "",
+  };
+};
+
+// Legacy callers send no documentType, only a file name prefixed with the upload column ("passport-scan.jpg")
+export const kindFromFileName = (fileName: string): DocumentKind | null => {
+  const lowerFileName = fileName.toLowerCase();
+  if (lowerFileName.includes("passport")) return "passport";
+  if (lowerFileName.includes("visa")) return "visa";
+  if (lowerFileName.includes("flight") || lowerFileName.includes("ticket")) return "flight";
+  return null;
+};
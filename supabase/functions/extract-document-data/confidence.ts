@@ -0,0 +1,39 @@
+// Per-field confidence reported by the model alongside each extracted value.
+
+export const CONFIDENCE_INSTRUCTIONS = `
+
+CONFIDENCE REPORTING:
+In addition to the keys above, include a "fieldConfidence" object keyed by field name, with one entry for every non-empty field you extracted.
+Each entry must be { "score": <number between 0 and 1>, "reason": "<short explanation, under 12 words>" }.
+- Use 0.9 or higher only when the text is crisp and unambiguous
+- Use below 0.7 when you guessed, the text was blurry, partly covered, handwritten, or inferred from context
+- Do NOT include MRZ lines in fieldConfidence`;
+
+export interface FieldConfidence {
+  score: number;
+  reason: string;
+}
+
+export const sanitizeConfidence = (
+  raw: unknown,
+  fields: Record<string, unknown>,
+): Record<string, FieldConfidence> => {
+  const result: Record<string, FieldConfidence> = {};
+  if (!raw || typeof raw !== "object") return result;
+
+  for (const [field, entry] of Object.entries(raw as Record<string, unknown>)) {
+    if (!(field in fields) || typeof fields[field] !== "string" || !fields[field]) continue;
+    if (!entry || typeof entry !== "object") continue;
+
+    const { score, reason } = entry as { score?: unknown; reason?: unknown };
+    const numericScore = Number(score);
+    if (Number.isNaN(numericScore)) continue;
+
+    result[field] = {
+      score: Math.min(1, Math.max(0, numericScore)),
+      reason: typeof reason === "string" ? reason : "",
+    };
+  }
+
+  return result;
+};
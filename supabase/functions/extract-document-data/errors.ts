@@ -0,0 +1,21 @@
+// Failures with an HTTP status and a machine-readable code, returned as { error, code, details }.
+
+export class RequestError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly code: string,
+    readonly details?: Record<string, unknown>,
+  ) {
+    super(message);
+    this.name = "RequestError";
+  }
+}
+
+export const errorBody = (error: unknown) => {
+  if (error instanceof RequestError) {
+    return { status: error.status, body: { error: error.message, code: error.code, details: error.details } };
+  }
+  const message = error instanceof Error ? error.message : "An unknown error occurred";
+  return { status: 500, body: { error: message, code: "INTERNAL_ERROR" } };
+};
@@ -0,0 +1,86 @@
+// Page extractions of saved batches are stored from here rather than from the browser, so
+// the records a batch keeps are the ones the model returned; save_passengers checks the
+// values agents save against them. Results are also signed, so a page the browser answers
+// from its own cache can still be stored without sending the image again.
+
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+import { EXTRACTION_PROMPT_VERSION } from "../_shared/extractionCache.ts";
+import type { Caller } from "./auth.ts";
+import { RequestError } from "./errors.ts";
+
+// A page of a saved document, as the caller names it
+export interface ExtractionTarget {
+  batchId: string;
+  documentId: string;
+  page: number; // 1-based
+}
+
+// Records as this function returned them, with the signature it returned alongside
+export interface SignedExtraction {
+  records: unknown[];
+  model: string | null;
+  signature: string;
+}
+
+export interface ExtractionStore {
+  sign: (records: unknown[], model: string | null) => Promise<string>;
+  verify: (extraction: SignedExtraction) => Promise<boolean>;
+  save: (caller: Caller, target: ExtractionTarget, records: unknown[]) => Promise<void>;
+}
+
+const toHex = (bytes: ArrayBuffer) => Array.from(new Uint8Array(bytes), (byte) => byte.toString(16).padStart(2, "0")).join("");
+
+const fromHex = (hex: string) => Uint8Array.from(hex.match(/[0-9a-f]{2}/g) ?? [], (pair) => parseInt(pair, 16));
+
+// Records and model exactly as serialized in the response, which is what comes back
+const signedText = (records: unknown[], model: string | null) => new TextEncoder().encode(JSON.stringify({ records, model }));
+
+export const createExtractionStore = (client: SupabaseClient, secret: string): ExtractionStore => {
+  const key = crypto.subtle.importKey("raw", new TextEncoder().encode(secret), { name: "HMAC", hash: "SHA-256" }, false, ["sign", "verify"]);
+
+  return {
+    sign: async (records, model) => toHex(await crypto.subtle.sign("HMAC", await key, signedText(records, model))),
+
+    verify: async ({ records, model, signature }) =>
+      Array.isArray(records) && typeof signature === "string" && /^[0-9a-f]{64}$/.test(signature)
+      && crypto.subtle.verify("HMAC", await key, fromHex(signature), signedText(records, model ?? null)),
+
+    // The document is looked up as the caller, so row-level security decides whether they may
+    // process it; the write itself uses the service role, since clients cannot write the table
+    save: async ({ client: callerClient }, { batchId, documentId, page }, records) => {
+      const { data: document, error: lookupError } = await callerClient
+        .from("batch_documents")
+        .select("id")
+        .eq("id", documentId)
+        .eq("batch_id", batchId)
+        .maybeSingle();
+      if (lookupError) {
+        throw new Error(`Document lookup failed: ${lookupError.message}`);
+      }
+      if (!document) {
+        throw new RequestError("The document is not part of this batch", 404, "DOCUMENT_NOT_FOUND", { documentId });
+      }
+
+      const { error } = await client.from("extractions").upsert({
+        batch_id: batchId,
+        document_id: documentId,
+        page,
+        records,
+        prompt_version: EXTRACTION_PROMPT_VERSION,
+      }, { onConflict: "document_id,page" });
+      if (error) {
+        throw new Error(`Saving the extraction failed: ${error.message}`);
+      }
+    },
+  };
+};
+
+// Uses the service role key the platform injects, both to write and as the signing secret
+export const extractionStoreFromEnv = (env: (key: string) => string | undefined): ExtractionStore => {
+  const url = env("SUPABASE_URL");
+  const serviceRoleKey = env("SUPABASE_SERVICE_ROLE_KEY");
+  if (!url || !serviceRoleKey) {
+    throw new Error("SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY not configured");
+  }
+  return createExtractionStore(createClient(url, serviceRoleKey, { auth: { persistSession: false } }), serviceRoleKey);
+};
@@ -1,211 +1,346 @@
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+import { type MrzReconciliation, reconcileWithMrz } from "./mrz.ts";
+import { CONFIDENCE_INSTRUCTIONS, sanitizeConfidence } from "./confidence.ts";
+import { BOUNDING_BOX_INSTRUCTIONS, sanitizeBoundingBoxes } from "./boundingBoxes.ts";
+import { sanitizeSegments, segmentsForPassenger } from "./itinerary.ts";
+import { CLASSIFICATION_PROMPT, DOCUMENT_TYPE_NAMES, EXTRACTION_PROMPTS, FALLBACK_PROMPT } from "./prompts.ts";
+import { type Classification, kindFromFileName, sanitizeClassification } from "./classification.ts";
+import { errorBody, RequestError } from "./errors.ts";
+import { mapWithConcurrency, ndjsonStream, parseBatchDocuments } from "./batch.ts";
+import { cacheFromEnv, type ExtractionCache } from "./cache.ts";
+import { type Caller, PROCESSING_ROLES, requireRole, requireUser } from "./auth.ts";
+import { recordExtraction } from "./audit.ts";
+import { type ExtractionStore, extractionStoreFromEnv, type SignedExtraction } from "./extractions.ts";
+import { type ChatMessage, type ExtractionProvider, type ModelTask, providerFromEnv } from "./providers.ts";
+import {
+  DOCUMENT_KINDS,
+  type DocumentKind,
+  type ExtractedRecord,
+  extractedRecordSchema,
+  parseModelJson,
+  type SchemaIssue,
+  type SchemaResult,
+  validateExtraction,
+} from "../_shared/extractionSchema.ts";
+import { LOW_CONFIDENCE_THRESHOLD } from "../_shared/confidence.ts";
+import { summarizeSegments } from "../_shared/itinerary.ts";
+
+type RawRecord = Record<string, unknown>;
+
+const asRecord = (value: unknown): RawRecord =>
+  value && typeof value === "object" && !Array.isArray(value) ? (value as RawRecord) : {};
+
+/**
+ * The flat passenger fields of a raw record as strings. Values already passed the
+ * prompt's schema; any that did not (older flat booking answers pass through it) are
+ * dropped rather than failing the page.
+ */
+const toRecordFields = (raw: RawRecord): ExtractedRecord => {
+  const result = extractedRecordSchema.safeParse(raw);
+  if (result.success) return result.data;
+
+  const invalid = new Set(result.error.issues.map((issue) => issue.path[0]));
+  return extractedRecordSchema.parse(Object.fromEntries(Object.entries(raw).filter(([key]) => !invalid.has(key))));
 };
 
-Deno.serve(async (req) => {
-  if (req.method === "OPTIONS") {
-    return new Response(null, { headers: corsHeaders });
-  }
+/**
+ * Split a flight booking into one raw record per passenger, each carrying the
+ * booking-level fields and the segments that passenger flies. Older single-passenger
+ * responses (flat `name`, `flightNumber`, ...) pass through unchanged.
+ */
+const expandBooking = (booking: RawRecord): RawRecord[] => {
+  const { passengers, segments: rawSegments, ...shared } = booking;
+  const segments = sanitizeSegments(rawSegments);
+  const passengerList = Array.isArray(passengers) && passengers.length > 0 ? passengers.map(asRecord) : [{} as RawRecord];
 
-  try {
-    const { image, fileName } = await req.json();
+  return passengerList.map((passenger) => {
+    const passengerSegments = segmentsForPassenger(segments, passenger.segmentIndexes);
+    const summary = summarizeSegments(passengerSegments);
+
+    return {
+      ...shared,
+      ...passenger,
+      ...summary,
+      fieldConfidence: { ...asRecord(shared.fieldConfidence), ...asRecord(passenger.fieldConfidence) },
+      fieldBoxes: { ...asRecord(shared.fieldBoxes), ...asRecord(passenger.fieldBoxes) },
+      segments: passengerSegments,
+    };
+  });
+};
 
-    if (!image) {
-      throw new Error("No image data provided");
+// Normalize one raw model record into the complete response shape
+const buildRecord = (extractedData: RawRecord, documentType: string) => {
+  const fields = toRecordFields(extractedData);
+
+  // Verify passport fields against the MRZ check digits
+  let mrzResult: MrzReconciliation = { mrzVerified: false, mrzWarnings: [], verifiedFields: [], failedFields: [], mismatchedFields: [] };
+  if (documentType === "Passport") {
+    const mrzLine = (value: unknown) => (typeof value === "string" ? value : "");
+    mrzResult = reconcileWithMrz(fields, mrzLine(extractedData.mrzLine1), mrzLine(extractedData.mrzLine2));
+    // The warnings quote passport numbers and names, so only their count and fields are logged
+    if (mrzResult.mrzWarnings.length > 0) {
+      const fields = [...mrzResult.failedFields, ...mrzResult.mismatchedFields];
+      console.warn(`MRZ reconciliation: ${mrzResult.mrzWarnings.length} warning(s)${fields.length > 0 ? ` for ${fields.join(", ")}` : ""}`);
     }
+  }
+
+  // Tickets carry travel dates, never a birth date; drop anything the model put there
+  if (documentType === "Flight Ticket") {
+    fields.dateOfBirth = "";
+  }
 
-    const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
-    if (!LOVABLE_API_KEY) {
-      throw new Error("LOVABLE_API_KEY not configured");
+  const completeData = {
+    documentType: documentType || "Unknown",
+    ...fields,
+    mrzVerified: mrzResult.mrzVerified,
+    mrzWarnings: mrzResult.mrzWarnings,
+  };
+
+  // Per-field confidence as reported by the model, adjusted by MRZ verification
+  const confidence = sanitizeConfidence(extractedData.fieldConfidence, completeData);
+  for (const field of mrzResult.verifiedFields) {
+    if (completeData[field as keyof typeof completeData]) {
+      confidence[field] = { score: 1, reason: "Verified by MRZ check digit" };
     }
+  }
+  for (const field of mrzResult.failedFields) {
+    if (!completeData[field as keyof typeof completeData]) continue;
+    const current = confidence[field];
+    confidence[field] = {
+      score: Math.min(current?.score ?? 1, LOW_CONFIDENCE_THRESHOLD - 0.1),
+      reason: "MRZ check digit failed",
+    };
+  }
+  for (const field of mrzResult.mismatchedFields) {
+    if (!completeData[field as keyof typeof completeData]) continue;
+    const current = confidence[field];
+    confidence[field] = {
+      score: Math.min(current?.score ?? 1, LOW_CONFIDENCE_THRESHOLD - 0.1),
+      reason: "Does not match the MRZ",
+    };
+  }
+
+  const boundingBoxes = sanitizeBoundingBoxes(extractedData.fieldBoxes, completeData);
+  const segments = sanitizeSegments(extractedData.segments);
+
+  return { ...completeData, segments, confidence, boundingBoxes };
+};
+
+type PageRecord = ReturnType<typeof buildRecord>;
 
-    // Determine document type from filename
-    const lowerFileName = fileName.toLowerCase();
-    let documentType = "Unknown";
-    let prompt = "";
-
-    if (lowerFileName.includes("passport")) {
-      documentType = "Passport";
-      prompt = `You are an expert OCR system specializing in passport document extraction. Analyze this passport image carefully.
-
-CRITICAL INSTRUCTIONS:
-- Look for the Machine Readable Zone (MRZ) at the bottom - it's the most reliable source
-- Cross-reference printed text with MRZ data for accuracy
-- Pay attention to document layout - name is usually at top, dates and numbers follow standard patterns
-
-EXTRACT THE FOLLOWING:
-1. Full name: Extract surname and given names exactly as printed (not from MRZ format)
-2. Passport number: Usually alphanumeric, 6-9 characters, found in top right or near photo
-3. Date of birth: Format EXACTLY as DD-MMM-YYYY (e.g., 15-Mar-1990) - use 3-letter month abbreviations
-4. Nationality: The country that issued the passport (look for "Nationality" field or country code)
-5. Issue date: Format EXACTLY as DD-MMM-YYYY (e.g., 10-Jan-2020) - the date the passport was issued
-6. Expiry date: Format EXACTLY as DD-MMM-YYYY (e.g., 20-Dec-2030) - use 3-letter month abbreviations
-
-HANDLING UNCLEAR DATA:
-- If text is blurry or unclear, use your best interpretation
-- If a field is completely unreadable, use empty string ""
-- Double-check dates are valid (day 01-31, valid month name, year 4 digits)
-- DATE FORMAT MUST BE DD-MMM-YYYY with hyphens (e.g., 15-Mar-1990, 20-Dec-2030)
-
-Return ONLY a JSON object with these exact keys: name, passportNumber, dateOfBirth, nationality, passportIssueDate, expiryDate. No additional text, explanations, or markdown.`;
-    } else if (lowerFileName.includes("visa")) {
-      documentType = "Visa";
-      prompt = `You are an expert OCR system specializing in visa document extraction. Analyze this visa document carefully.
-
-CRITICAL INSTRUCTIONS:
-- Visas have various formats - look for official stamps, stickers, or printed documents
-- Key information is usually in the main body of the visa sticker/stamp
-- Some information may reference an attached passport
-
-EXTRACT THE FOLLOWING:
-1. Full name: Extract exactly as printed on the visa
-2. Passport number: May be printed on visa itself or may need to check attached passport (if visible)
-3. Date of birth: Format EXACTLY as DD-MMM-YYYY (e.g., 15-Mar-1990) - use 3-letter month abbreviations
-4. Nationality: Country of the passport holder
-5. Visa expiry date: Format EXACTLY as DD-MMM-YYYY (e.g., 20-Dec-2030) - use 3-letter month abbreviations
-6. Visa type: Category or type (e.g., "Tourist", "B1/B2", "Work", "Student", "Transit")
-
-HANDLING UNCLEAR DATA:
-- If passport number is not on visa itself, use empty string ""
-- For visa type, look for codes like "B1", "B2", "H1B", or words like "Tourist", "Business"
-- If text is unclear, make your best interpretation
-- DATE FORMAT MUST BE DD-MMM-YYYY with hyphens (e.g., 15-Mar-1990, 20-Dec-2030)
-
-Return ONLY a JSON object with these exact keys: name, passportNumber, dateOfBirth, nationality, expiryDate, visaType. No additional text, explanations, or markdown.`;
-    } else if (lowerFileName.includes("flight") || lowerFileName.includes("ticket")) {
-      documentType = "Flight Ticket";
-      prompt = `You are an expert OCR system specializing in flight ticket and boarding pass extraction. Analyze this document carefully.
-
-CRITICAL INSTRUCTIONS:
-- Flight tickets have passenger name, flight details, and travel dates
-- Look for airline logos and flight number patterns (e.g., AA123, BA456)
-- Departure and arrival information is usually prominent
-- Look for booking/confirmation codes, seat assignments, and meal preferences
-
-EXTRACT THE FOLLOWING:
-1. Passenger name: Full name as printed on ticket (usually in format: LASTNAME/FIRSTNAME)
-2. Flight number: Airline code + number (e.g., "AA 1234", "BA 456", "DL 789")
-3. Booking reference: Also called PNR, confirmation code, or record locator (usually 6 alphanumeric characters, e.g., "ABC123")
-4. Ticket number: The e-ticket number (usually 13 digits, may start with airline code like "016-1234567890")
-5. Departure: City name or airport code of origin (e.g., "New York JFK", "London Heathrow", "LAX")
-6. Arrival: City name or airport code of final destination (e.g., "Paris CDG", "Tokyo Narita", "SFO")
-7. Transit stop: If flight has a layover/connection, extract the transit city and airport (e.g., "Dubai DXB", "Frankfurt FRA"). Leave empty if direct flight
-8. Seat number: The assigned seat (e.g., "12A", "24C", "3F")
-9. Inflight meal: Meal preference if shown (e.g., "Vegetarian", "Halal", "Hindu", "Kosher", "Regular", "VGML", "HNML")
-10. Departure date: Format EXACTLY as DD-MMM-YYYY (e.g., 25-Dec-2024) - use 3-letter month abbreviations
-
-HANDLING UNCLEAR DATA:
-- If passenger name has "/" separator, keep it as is
-- Include both city name and airport code if both are visible
-- For date, look for departure date specifically (not booking date or arrival date)
-- If text is unclear, make your best interpretation
-- DATE FORMAT MUST BE DD-MMM-YYYY with hyphens (e.g., 25-Dec-2024)
-- If a field is not visible or not applicable, use empty string ""
-
-Return ONLY a JSON object with these exact keys: name, flightNumber, bookingReference, ticketNumber, departure, arrival, transitStop, seatNumber, inflightMeal, dateOfBirth (use departure date here). No additional text, explanations, or markdown.`;
-    } else {
-      prompt = `You are an expert OCR system. Analyze this document and identify what type it is.
-
-STEPS:
-1. Determine if this is a PASSPORT, VISA, or FLIGHT TICKET
-2. Extract all relevant information based on document type
-3. Use the appropriate field names for the identified document type
-
-PASSPORT fields: name, passportNumber, dateOfBirth, nationality, passportIssueDate, expiryDate
-VISA fields: name, passportNumber, dateOfBirth, nationality, expiryDate, visaType
-FLIGHT TICKET fields: name, flightNumber, bookingReference, ticketNumber, departure, arrival, transitStop, seatNumber, inflightMeal, dateOfBirth (use departure date)
-
-FORMATTING:
-- All dates MUST be in DD-MMM-YYYY format with hyphens (e.g., 15-Mar-1990, 20-Dec-2030)
-- If a field is not found or unclear, use empty string ""
-- Be as accurate as possible with OCR
-
-Return ONLY a JSON object with available data. No additional text, explanations, or markdown.`;
+// Re-asks allowed when the model's answer fails schema validation
+const MAX_REPAIR_ATTEMPTS = 2;
+
+const repairPrompt = (issues: SchemaIssue[]) => `Your previous answer did not match the required format:
+${issues.map((issue) => `- ${issue.field}: ${issue.message}`).join("\n")}
+
+Look at the document again and return the complete JSON object with these problems fixed. Return ONLY the JSON object, no markdown or explanations.`;
+
+/**
+ * Ask the model about one image and validate its JSON answer. Invalid answers are sent
+ * back with the list of problems until they validate or the repair attempts run out.
+ */
+const askModel = async (
+  provider: ExtractionProvider,
+  task: ModelTask,
+  prompt: string,
+  image: string,
+  validate: (raw: unknown) => SchemaResult,
+): Promise<{ data: RawRecord; model: string }> => {
+  const messages: ChatMessage[] = [
+    {
+      role: "user",
+      content: [
+        { type: "text", text: prompt },
+        {
+          type: "image_url",
+          image_url: { url: `data:image/jpeg;base64,${image}` },
+        },
+      ],
+    },
+  ];
+
+  for (let attempt = 0; ; attempt++) {
+    const { content, model } = await provider.complete({ task, messages, image });
+    const parsed = parseModelJson(content);
+    const result = parsed.success ? validate(parsed.data) : parsed;
+    if (result.success) return { data: result.data, model };
+
+    // Field names only: the answer and the issue messages can hold passport data
+    const invalidFields = [...new Set(result.issues.map((issue) => issue.field))];
+    console.warn(`Model output failed validation (attempt ${attempt + 1}): ${result.issues.length} issue(s) in ${invalidFields.join(", ")}`);
+    if (attempt >= MAX_REPAIR_ATTEMPTS) {
+      throw new RequestError(
+        `Extracted data failed validation for: ${invalidFields.join(", ")}`,
+        502,
+        "INVALID_MODEL_OUTPUT",
+        { invalidFields, issues: result.issues },
+      );
     }
 
-    const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        "Authorization": `Bearer ${LOVABLE_API_KEY}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "google/gemini-2.5-flash",
-        messages: [
-          {
-            role: "user",
-            content: [
-              { type: "text", text: prompt },
-              {
-                type: "image_url",
-                image_url: { url: `data:image/jpeg;base64,${image}` },
-              },
-            ],
-          },
-        ],
-      }),
+    messages.push({ role: "assistant", content }, { role: "user", content: repairPrompt(result.issues) });
+  }
+};
+
+const classifyDocument = async (provider: ExtractionProvider, image: string): Promise<Classification> => {
+  const { data: raw } = await askModel(provider, "classify", CLASSIFICATION_PROMPT, image, (data) => ({ success: true, data: data as RawRecord }));
+  return sanitizeClassification(raw);
+};
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+interface DocumentRequest {
+  image?: string;
+  signed?: SignedExtraction; // answered from the caller's cache; stored and recorded without asking the model
+  fileName?: string;
+  documentType?: string;
+  force?: boolean; // skip the cache lookup; the fresh answer still replaces the cached one
+  documentId?: string; // with the request's batchId, where the page's records are stored
+  page?: number;
+}
+
+// Extract one page image into one record per passenger found on it
+const extractDocument = async (
+  provider: ExtractionProvider,
+  cache: ExtractionCache | null,
+  { image, fileName, documentType: requestedType, force }: DocumentRequest,
+): Promise<{ records: PageRecord[]; cached: boolean; model: string | null; documentType: string }> => {
+  if (!image) {
+    throw new RequestError("No image data provided", 400, "MISSING_IMAGE");
+  }
+  if (requestedType != null && !DOCUMENT_KINDS.includes(requestedType as DocumentKind)) {
+    throw new RequestError(`Unsupported document type: ${requestedType}`, 400, "INVALID_DOCUMENT_TYPE", {
+      documentType: requestedType,
+      allowed: DOCUMENT_KINDS,
     });
+  }
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error("AI Gateway error:", response.status, errorText);
-      throw new Error(`AI Gateway error: ${response.status}`);
-    }
+  // Callers that send documentType get exactly that prompt. Legacy callers only send a
+  // type-prefixed file name; failing that, the model classifies the image first.
+  let kind = (requestedType as DocumentKind | undefined) ?? kindFromFileName(fileName || "");
+  if (!kind) {
+    const classification = await classifyDocument(provider, image);
+    kind = classification.documentType === "unknown" ? null : classification.documentType;
+  }
+  const documentType = kind ? DOCUMENT_TYPE_NAMES[kind] : "Unknown";
+  const prompt = (kind ? EXTRACTION_PROMPTS[kind] : FALLBACK_PROMPT) + CONFIDENCE_INSTRUCTIONS + BOUNDING_BOX_INSTRUCTIONS;
+
+  const task = kind ?? "unknown";
+  const cacheKey = cache && await cache.key(image, task);
+  if (cacheKey && !force) {
+    const hit = await cache.get(cacheKey);
+    if (hit) return { records: hit.records as PageRecord[], cached: true, model: hit.model, documentType };
+  }
+
+  const { data: extractedData, model } = await askModel(provider, task, prompt, image, (raw) => validateExtraction(task, raw));
+
+  // Group bookings list several passengers; each becomes its own record
+  const rawRecords = documentType === "Flight Ticket" ? expandBooking(extractedData) : [extractedData];
+  const records = rawRecords.map((raw) => buildRecord(raw, documentType));
+  if (cacheKey) await cache.set(cacheKey, task, { records, model });
+  return { records, cached: false, model, documentType };
+};
+
+// Records this function returned earlier, which the caller kept in its own cache
+const verifiedExtraction = async (store: ExtractionStore, signed: SignedExtraction) => {
+  if (!await store.verify(signed)) {
+    throw new RequestError("Cached records were not returned by this function", 400, "INVALID_SIGNATURE");
+  }
+  const records = signed.records as PageRecord[];
+  return { records, cached: true, model: signed.model ?? null, documentType: records[0]?.documentType ?? "Unknown" };
+};
 
-    const aiData = await response.json();
-    const content = aiData.choices?.[0]?.message?.content;
+// Extract, store the page in its batch and write the audit event before anything is returned to the caller
+const extractAndRecord = async (
+  provider: ExtractionProvider,
+  cache: ExtractionCache | null,
+  store: ExtractionStore,
+  caller: Caller,
+  scope: { organizationId: string; batchId?: string },
+  request: DocumentRequest,
+) => {
+  const { records, cached, model, documentType } = request.signed
+    ? await verifiedExtraction(store, request.signed)
+    : await extractDocument(provider, cache, request);
+  await recordExtraction(caller, {
+    ...scope,
+    fileName: request.fileName,
+    documentType,
+    model,
+    cached,
+    passengers: records.map((record) => record.name),
+  });
+  if (scope.batchId && typeof request.documentId === "string") {
+    const page = typeof request.page === "number" && Number.isInteger(request.page) && request.page > 0 ? request.page : 1;
+    await store.save(caller, { batchId: scope.batchId, documentId: request.documentId, page }, records);
+  }
+  return { records, cached, model, signature: await store.sign(records, model) };
+};
+
+// Request errors without their details, which can quote the model's answer
+const loggable = (error: unknown) => (error instanceof RequestError ? `${error.code}: ${error.message}` : error);
+
+const jsonResponse = (body: unknown, status = 200) => new Response(JSON.stringify(body), {
+  status,
+  headers: { ...corsHeaders, "Content-Type": "application/json" },
+});
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
 
-    if (!content) {
-      throw new Error("No response from AI");
+  try {
+    const caller = await requireUser(req, (key) => Deno.env.get(key));
+    const body = await req.json();
+    await requireRole(caller, body.organizationId, PROCESSING_ROLES);
+    const scope = {
+      organizationId: body.organizationId as string,
+      batchId: typeof body.batchId === "string" ? body.batchId : undefined,
+    };
+    const provider = providerFromEnv((key) => Deno.env.get(key));
+    const cache = cacheFromEnv((key) => Deno.env.get(key));
+    const store = extractionStoreFromEnv((key) => Deno.env.get(key));
+
+    // Batch request: { batchId?, documents: [{ id, image or signed, fileName?, documentType?, force?, documentId?, page? }] }, streamed back as NDJSON
+    if (body.documents !== undefined) {
+      const documents = parseBatchDocuments(body.documents);
+      const concurrency = Math.max(1, Number(Deno.env.get("EXTRACTION_BATCH_CONCURRENCY")) || 4);
+
+      const stream = ndjsonStream(async (send) => {
+        await mapWithConcurrency(documents, concurrency, async (document) => {
+          try {
+            send({ type: "result", id: document.id, ...await extractAndRecord(provider, cache, store, caller, scope, document) });
+          } catch (error) {
+            console.error(`Error extracting batch document ${document.id}:`, loggable(error));
+            const { status, body: errorDetails } = errorBody(error);
+            send({ type: "error", id: document.id, status, ...errorDetails });
+          }
+        });
+        send({ type: "done", count: documents.length });
+      });
+
+      return new Response(stream, {
+        headers: { ...corsHeaders, "Content-Type": "application/x-ndjson" },
+      });
     }
 
-    // Parse the JSON response
-    let extractedData;
-    try {
-      // Remove markdown code blocks if present
-      const jsonStr = content.replace(/```json\n?/g, "").replace(/```\n?/g, "").trim();
-      extractedData = JSON.parse(jsonStr);
-    } catch (e) {
-      console.error("Failed to parse AI response:", content);
-      throw new Error("Failed to parse extracted data");
+    if (body.action === "classify") {
+      if (!body.image) {
+        throw new RequestError("No image data provided", 400, "MISSING_IMAGE");
+      }
+      return jsonResponse(await classifyDocument(provider, body.image));
     }
 
-    // Add document type to the extracted data
-    extractedData.documentType = documentType;
-
-    // Ensure all fields exist with defaults
-    const completeData = {
-      documentType: extractedData.documentType || "Unknown",
-      name: extractedData.name || "",
-      passportNumber: extractedData.passportNumber || "",
-      dateOfBirth: extractedData.dateOfBirth || "",
-      nationality: extractedData.nationality || "",
-      passportIssueDate: extractedData.passportIssueDate || "",
-      expiryDate: extractedData.expiryDate || "",
-      visaType: extractedData.visaType || "",
-      flightNumber: extractedData.flightNumber || "",
-      bookingReference: extractedData.bookingReference || "",
-      ticketNumber: extractedData.ticketNumber || "",
-      departure: extractedData.departure || "",
-      arrival: extractedData.arrival || "",
-      transitStop: extractedData.transitStop || "",
-      seatNumber: extractedData.seatNumber || "",
-      inflightMeal: extractedData.inflightMeal || "",
-    };
+    const { records, cached, model, signature } = await extractAndRecord(provider, cache, store, caller, scope, body);
 
-    return new Response(JSON.stringify({ extractedData: completeData }), {
-      headers: { ...corsHeaders, "Content-Type": "application/json" },
-    });
+    // `extractedData` keeps the single-record shape for existing callers
+    return jsonResponse({ extractedData: records[0], records, cached, model, signature });
   } catch (error) {
-    console.error("Error in extract-document-data:", error);
-    const errorMessage = error instanceof Error ? error.message : "An unknown error occurred";
-    return new Response(
-      JSON.stringify({ error: errorMessage }),
-      {
-        status: 500,
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-      }
-    );
+    console.error("Error in extract-document-data:", loggable(error));
+    const { status, body } = errorBody(error);
+    return jsonResponse(body, status);
   }
 });
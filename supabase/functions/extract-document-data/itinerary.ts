@@ -0,0 +1,36 @@
+// Flight segments of a booking and the passengers travelling on them.
+
+import type { FlightSegment } from "../_shared/extractionSchema.ts";
+
+const asString = (value: unknown): string => (typeof value === "string" ? value.trim() : "");
+
+export const sanitizeSegments = (raw: unknown): FlightSegment[] => {
+  if (!Array.isArray(raw)) return [];
+
+  return raw
+    .filter((entry) => entry && typeof entry === "object")
+    .map((entry) => ({
+      flightNumber: asString(entry.flightNumber),
+      date: asString(entry.date),
+      origin: asString(entry.origin),
+      destination: asString(entry.destination),
+      departureTime: asString(entry.departureTime),
+      arrivalDate: asString(entry.arrivalDate) || asString(entry.date),
+      arrivalTime: asString(entry.arrivalTime),
+    }))
+    .filter((segment) => segment.flightNumber || segment.origin || segment.destination);
+};
+
+/**
+ * The segments one passenger flies. Passengers without explicit segment indexes
+ * are on every segment of the booking.
+ */
+export const segmentsForPassenger = (segments: FlightSegment[], segmentIndexes: unknown): FlightSegment[] => {
+  if (!Array.isArray(segmentIndexes) || segmentIndexes.length === 0) return segments;
+
+  const picked = segmentIndexes
+    .map((index) => segments[Number(index)])
+    .filter((segment): segment is FlightSegment => !!segment);
+
+  return picked.length > 0 ? picked : segments;
+};
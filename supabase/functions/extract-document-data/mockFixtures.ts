@@ -0,0 +1,94 @@
+// Canned model answers for the images in ./fixtures, used by the mock provider.
+// A fixture is matched on the SHA-256 of the image file (`sha256sum fixtures/<file>`);
+// to add one, drop the image in ./fixtures and list its hash with the answer the model should give.
+
+import type { DocumentKind } from "../_shared/extractionSchema.ts";
+
+export interface MockFixture {
+  name: string; // file in ./fixtures
+  sha256: string;
+  documentType: DocumentKind;
+  response: Record<string, unknown>; // extraction answer, as the model would return it
+}
+
+export const MOCK_FIXTURES: MockFixture[] = [
+  {
+    name: "passport-ahmed-khan.png",
+    sha256: "69f82ce97c167fe78115120e8f969539552d0afdcdc3852b65e07f3e1e76c814",
+    documentType: "passport",
+    response: {
+      name: "AHMED KHAN",
+      passportNumber: "AB1234567",
+      dateOfBirth: "15-Mar-1988",
+      nationality: "Pakistani",
+      passportIssueDate: "20-Aug-2020",
+      expiryDate: "19-Aug-2030",
+      mrzLine1: "P<PAKKHAN<<AHMED<<<<<<<<<<<<<<<<<<<<<<<<<<<<",
+      mrzLine2: "AB12345671PAK8803159M3008199<<<<<<<<<<<<<<<6",
+      fieldConfidence: {
+        name: { score: 0.97, reason: "Printed clearly on data page" },
+        nationality: { score: 0.95, reason: "Printed clearly on data page" },
+        passportIssueDate: { score: 0.62, reason: "Partly covered by laminate glare" },
+      },
+      fieldBoxes: {
+        name: [275, 350, 320, 915],
+        passportNumber: [375, 350, 420, 915],
+      },
+    },
+  },
+  {
+    name: "visa-ahmed-khan.png",
+    sha256: "0dfd8d9dc41056515fd2d16d69030bb6ca7237c0e9a4797bd45395ac1d8e07b4",
+    documentType: "visa",
+    response: {
+      name: "AHMED KHAN",
+      passportNumber: "AB1234567",
+      dateOfBirth: "15-Mar-1988",
+      nationality: "Pakistan",
+      expiryDate: "",
+      visaType: "Tourist",
+      visaExpiryDate: "30-Jun-2026",
+      fieldConfidence: {
+        visaType: { score: 0.92, reason: "Category printed on visa sticker" },
+      },
+    },
+  },
+  {
+    name: "booking-khan-family.png",
+    sha256: "f03c42c0e58c2d791cc77f5691c5fe1cb6a4e6aa4f32c624cb272897273ebe78",
+    documentType: "flight",
+    response: {
+      bookingReference: "K7QX2M",
+      segments: [
+        {
+          flightNumber: "EK 623",
+          date: "10-May-2026",
+          origin: "Lahore LHE",
+          destination: "Dubai DXB",
+          departureTime: "04:35",
+          arrivalDate: "10-May-2026",
+          arrivalTime: "06:55",
+        },
+        {
+          flightNumber: "EK 622",
+          date: "24-May-2026",
+          origin: "Dubai DXB",
+          destination: "Lahore LHE",
+          departureTime: "22:10",
+          arrivalDate: "25-May-2026",
+          arrivalTime: "02:20",
+        },
+      ],
+      passengers: [
+        { name: "KHAN/AHMED MR", ticketNumber: "176-2401234567", seatNumber: "32A, 41C", inflightMeal: "MOML", segmentIndexes: [] },
+        { name: "KHAN/SARA MRS", ticketNumber: "176-2401234568", seatNumber: "32B, 41D", inflightMeal: "", segmentIndexes: [] },
+      ],
+      fieldConfidence: {
+        bookingReference: { score: 0.99, reason: "Printed in booking header" },
+      },
+    },
+  },
+];
+
+export const findFixture = (sha256: string, fixtures: MockFixture[] = MOCK_FIXTURES): MockFixture | undefined =>
+  fixtures.find((fixture) => fixture.sha256 === sha256);
@@ -0,0 +1,228 @@
+// ICAO 9303 TD3 (passport) machine readable zone parsing and validation.
+// Two lines of 44 characters each; "<" is the filler character.
+
+import { toCountryCode } from "../_shared/countries.ts";
+
+const TD3_LINE_LENGTH = 44;
+const MONTHS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+export interface MrzCheck {
+  field: "documentNumber" | "dateOfBirth" | "expiryDate" | "personalNumber" | "composite";
+  valid: boolean;
+}
+
+export interface MrzData {
+  documentCode: string;
+  issuingState: string;
+  surname: string;
+  givenNames: string;
+  documentNumber: string;
+  nationality: string;
+  dateOfBirth: string; // DD-MMM-YYYY
+  sex: string;
+  expiryDate: string; // DD-MMM-YYYY
+  personalNumber: string;
+  checks: MrzCheck[];
+}
+
+// Character values for check digit computation: 0-9 as is, A-Z as 10-35, filler as 0
+const charValue = (char: string): number => {
+  if (char >= "0" && char <= "9") return char.charCodeAt(0) - 48;
+  if (char >= "A" && char <= "Z") return char.charCodeAt(0) - 55;
+  return 0;
+};
+
+export const computeCheckDigit = (value: string): number => {
+  const weights = [7, 3, 1];
+  let sum = 0;
+  for (let i = 0; i < value.length; i++) {
+    sum += charValue(value[i]) * weights[i % 3];
+  }
+  return sum % 10;
+};
+
+const checkDigitMatches = (value: string, checkChar: string): boolean => {
+  // An all-filler optional field may carry "<" instead of "0" as its check digit
+  const expected = checkChar === "<" ? 0 : Number(checkChar);
+  return !Number.isNaN(expected) && computeCheckDigit(value) === expected;
+};
+
+const normalizeLine = (line: string): string => {
+  return (line || "")
+    .toUpperCase()
+    .replace(/\s+/g, "")
+    .replace(/[«‹]/g, "<");
+};
+
+const stripFiller = (value: string): string => value.replace(/</g, " ").replace(/\s+/g, " ").trim();
+
+// MRZ dates are YYMMDD. Birth dates in the future belong to the previous century;
+// expiry dates are always in this century.
+const formatMrzDate = (yymmdd: string, kind: "birth" | "expiry"): string => {
+  if (!/^\d{6}$/.test(yymmdd)) return "";
+
+  const yy = Number(yymmdd.slice(0, 2));
+  const month = Number(yymmdd.slice(2, 4));
+  const day = yymmdd.slice(4, 6);
+  if (month < 1 || month > 12) return "";
+
+  const currentYY = new Date().getUTCFullYear() % 100;
+  const century = kind === "birth" && yy > currentYY ? 1900 : 2000;
+
+  return `${day}-${MONTHS[month - 1]}-${century + yy}`;
+};
+
+/**
+ * Parse the two lines of a TD3 MRZ. Returns null when the lines do not have the
+ * TD3 shape; otherwise returns the decoded fields together with the result of
+ * every check digit so callers can decide which values to trust.
+ */
+export const parseTd3 = (rawLine1: string, rawLine2: string): MrzData | null => {
+  const line1 = normalizeLine(rawLine1);
+  const line2 = normalizeLine(rawLine2);
+
+  if (line1.length !== TD3_LINE_LENGTH || line2.length !== TD3_LINE_LENGTH) return null;
+  if (!line1.startsWith("P")) return null;
+
+  const [surnamePart, ...givenParts] = line1.slice(5).split("<<");
+
+  const documentNumberRaw = line2.slice(0, 9);
+  const dobRaw = line2.slice(13, 19);
+  const expiryRaw = line2.slice(21, 27);
+  const personalNumberRaw = line2.slice(28, 42);
+  const compositeRaw = line2.slice(0, 10) + line2.slice(13, 20) + line2.slice(21, 43);
+
+  return {
+    documentCode: stripFiller(line1.slice(0, 2)),
+    issuingState: stripFiller(line1.slice(2, 5)),
+    surname: stripFiller(surnamePart),
+    givenNames: stripFiller(givenParts.join(" ")),
+    documentNumber: documentNumberRaw.replace(/</g, ""),
+    nationality: stripFiller(line2.slice(10, 13)),
+    dateOfBirth: formatMrzDate(dobRaw, "birth"),
+    sex: stripFiller(line2.slice(20, 21)),
+    expiryDate: formatMrzDate(expiryRaw, "expiry"),
+    personalNumber: stripFiller(personalNumberRaw),
+    checks: [
+      { field: "documentNumber", valid: checkDigitMatches(documentNumberRaw, line2[9]) },
+      { field: "dateOfBirth", valid: checkDigitMatches(dobRaw, line2[19]) },
+      { field: "expiryDate", valid: checkDigitMatches(expiryRaw, line2[27]) },
+      { field: "personalNumber", valid: checkDigitMatches(personalNumberRaw, line2[42]) },
+      { field: "composite", valid: checkDigitMatches(compositeRaw, line2[43]) },
+    ],
+  };
+};
+
+const isCheckValid = (mrz: MrzData, field: MrzCheck["field"]): boolean => {
+  return mrz.checks.find((c) => c.field === field)?.valid ?? false;
+};
+
+const nameWords = (value: string): string[] => {
+  return (value || "")
+    .toUpperCase()
+    .replace(/[^A-Z\s]/g, " ")
+    .split(/\s+/)
+    .filter((w) => w.length > 0);
+};
+
+export interface MrzReconciliation {
+  mrzVerified: boolean;
+  mrzWarnings: string[];
+  // Extracted fields confirmed (or corrected) by a passing check digit, and those whose check failed
+  verifiedFields: string[];
+  failedFields: string[];
+  // Printed values kept although they disagree with the MRZ, for fields without a check digit
+  mismatchedFields: string[];
+}
+
+/**
+ * Compare the model's printed-page reading against the MRZ. Fields whose check
+ * digit passes are authoritative and replace a disagreeing printed value; fields
+ * that cannot be verified are left alone and flagged. Mutates `data` in place.
+ */
+export const reconcileWithMrz = (
+  data: Record<string, string>,
+  mrzLine1: string,
+  mrzLine2: string,
+): MrzReconciliation => {
+  const warnings: string[] = [];
+  const verifiedFields: string[] = [];
+  const failedFields: string[] = [];
+  const mismatchedFields: string[] = [];
+
+  if (!mrzLine1 && !mrzLine2) {
+    return { mrzVerified: false, mrzWarnings: ["MRZ not found on document"], verifiedFields, failedFields, mismatchedFields };
+  }
+
+  const mrz = parseTd3(mrzLine1, mrzLine2);
+  if (!mrz) {
+    return {
+      mrzVerified: false,
+      mrzWarnings: ["MRZ could not be read as a TD3 passport zone"],
+      verifiedFields,
+      failedFields,
+      mismatchedFields,
+    };
+  }
+
+  const reconcileField = (
+    key: "passportNumber" | "dateOfBirth" | "expiryDate",
+    check: MrzCheck["field"],
+    mrzValue: string,
+    label: string,
+  ) => {
+    if (!isCheckValid(mrz, check) || !mrzValue) {
+      warnings.push(`MRZ check digit failed for ${label}; printed value not verified`);
+      failedFields.push(key);
+      return;
+    }
+
+    verifiedFields.push(key);
+    const printed = (data[key] || "").trim();
+    if (printed.toUpperCase().replace(/\s+/g, "") === mrzValue.toUpperCase()) return;
+
+    if (printed) {
+      warnings.push(`${label} "${printed}" replaced with MRZ value "${mrzValue}"`);
+    }
+    data[key] = mrzValue;
+  };
+
+  reconcileField("passportNumber", "documentNumber", mrz.documentNumber, "Passport number");
+  reconcileField("dateOfBirth", "dateOfBirth", mrz.dateOfBirth, "Date of birth");
+  reconcileField("expiryDate", "expiryDate", mrz.expiryDate, "Expiry date");
+
+  if (!isCheckValid(mrz, "composite")) {
+    warnings.push("MRZ composite check digit failed");
+  }
+
+  // Nationality is printed as a country name or demonym but encoded as an ISO 3166 code,
+  // so the printed value is compared through the code and flagged rather than replaced.
+  // A name we cannot map to a code is left alone.
+  const mrzCode = toCountryCode(mrz.nationality) ?? mrz.nationality;
+  if (!data.nationality) {
+    data.nationality = mrzCode;
+  } else if (mrzCode) {
+    const printedCode = toCountryCode(data.nationality);
+    if (printedCode && printedCode !== mrzCode) {
+      warnings.push(`Nationality "${data.nationality}" does not match MRZ nationality "${mrz.nationality}"`);
+      mismatchedFields.push("nationality");
+    }
+  }
+
+  // MRZ names are transliterated and truncated, so flag rather than override
+  const printedWords = nameWords(data.name);
+  const mrzWords = [...nameWords(mrz.surname), ...nameWords(mrz.givenNames)];
+  if (!data.name) {
+    data.name = [mrz.givenNames, mrz.surname].filter(Boolean).join(" ");
+  } else if (mrzWords.length > 0 && !nameWords(mrz.surname).every((w) => printedWords.includes(w))) {
+    warnings.push(`Name "${data.name}" does not match MRZ name "${mrz.surname}, ${mrz.givenNames}"`);
+  }
+
+  return {
+    mrzVerified: mrz.checks.every((c) => c.valid),
+    mrzWarnings: warnings,
+    verifiedFields,
+    failedFields,
+    mismatchedFields,
+  };
+};
@@ -0,0 +1,132 @@
+// Extraction prompts, one per document type, plus the classifier that picks between them.
+
+import type { DocumentKind } from "../_shared/extractionSchema.ts";
+
+// Document type names as they appear on extracted records
+export const DOCUMENT_TYPE_NAMES: Record<DocumentKind, string> = {
+  passport: "Passport",
+  visa: "Visa",
+  flight: "Flight Ticket",
+};
+
+export const EXTRACTION_PROMPTS: Record<DocumentKind, string> = {
+  passport: `You are an expert OCR system specializing in passport document extraction. Analyze this passport image carefully.
+
+CRITICAL INSTRUCTIONS:
+- Look for the Machine Readable Zone (MRZ) at the bottom - it's the most reliable source
+- Cross-reference printed text with MRZ data for accuracy
+- Pay attention to document layout - name is usually at top, dates and numbers follow standard patterns
+
+EXTRACT THE FOLLOWING:
+1. Full name: Extract surname and given names exactly as printed (not from MRZ format)
+2. Passport number: Usually alphanumeric, 6-9 characters, found in top right or near photo
+3. Date of birth: Format EXACTLY as DD-MMM-YYYY (e.g., 15-Mar-1990) - use 3-letter month abbreviations
+4. Nationality: The country that issued the passport (look for "Nationality" field or country code)
+5. Issue date: Format EXACTLY as DD-MMM-YYYY (e.g., 10-Jan-2020) - the date the passport was issued
+6. Expiry date: Format EXACTLY as DD-MMM-YYYY (e.g., 20-Dec-2030) - use 3-letter month abbreviations
+7. MRZ line 1: The first line of the MRZ, copied character for character (44 characters, starts with "P", keep every "<")
+8. MRZ line 2: The second line of the MRZ, copied character for character (44 characters, keep every "<")
+
+HANDLING UNCLEAR DATA:
+- If text is blurry or unclear, use your best interpretation
+- Copy the MRZ lines exactly as printed - do NOT correct, reformat, or remove filler "<" characters
+- If the MRZ is not visible, use empty string "" for both MRZ lines
+- If a field is completely unreadable, use empty string ""
+- Double-check dates are valid (day 01-31, valid month name, year 4 digits)
+- DATE FORMAT MUST BE DD-MMM-YYYY with hyphens (e.g., 15-Mar-1990, 20-Dec-2030)
+
+Return ONLY a JSON object with these exact keys: name, passportNumber, dateOfBirth, nationality, passportIssueDate, expiryDate, mrzLine1, mrzLine2. No additional text, explanations, or markdown.`,
+  visa: `You are an expert OCR system specializing in visa document extraction. Analyze this visa document carefully.
+
+CRITICAL INSTRUCTIONS:
+- Visas have various formats - look for official stamps, stickers, or printed documents
+- Key information is usually in the main body of the visa sticker/stamp
+- Some information may reference an attached passport
+
+EXTRACT THE FOLLOWING:
+1. Full name: Extract exactly as printed on the visa
+2. Passport number: May be printed on visa itself or may need to check attached passport (if visible)
+3. Date of birth: Format EXACTLY as DD-MMM-YYYY (e.g., 15-Mar-1990) - use 3-letter month abbreviations
+4. Nationality: Country of the passport holder
+5. visaExpiryDate: The date the visa stops being valid, format EXACTLY as DD-MMM-YYYY (e.g., 20-Dec-2030) - use 3-letter month abbreviations
+6. Visa type: Category or type (e.g., "Tourist", "B1/B2", "Work", "Student", "Transit")
+
+HANDLING UNCLEAR DATA:
+- If passport number is not on visa itself, use empty string ""
+- The visa's own expiry goes in visaExpiryDate; only fill expiryDate if the attached passport's expiry date is visible
+- For visa type, look for codes like "B1", "B2", "H1B", or words like "Tourist", "Business"
+- If text is unclear, make your best interpretation
+- DATE FORMAT MUST BE DD-MMM-YYYY with hyphens (e.g., 15-Mar-1990, 20-Dec-2030)
+
+Return ONLY a JSON object with these exact keys: name, passportNumber, dateOfBirth, nationality, expiryDate, visaType, visaExpiryDate. No additional text, explanations, or markdown.`,
+  flight: `You are an expert OCR system specializing in flight ticket, e-ticket, boarding pass and booking confirmation extraction. Analyze this document carefully.
+
+CRITICAL INSTRUCTIONS:
+- A document may cover ONE passenger (boarding pass, single e-ticket) or MANY (group booking / PNR confirmation)
+- A booking may have several flight segments (connections, return flights) - list every one in itinerary order
+- Look for airline logos and flight number patterns (e.g., AA123, BA456)
+- Look for booking/confirmation codes, seat assignments, and meal preferences
+
+EXTRACT THE FOLLOWING:
+1. bookingReference: Also called PNR, confirmation code, or record locator (usually 6 alphanumeric characters, e.g., "ABC123")
+2. segments: An array with one object per flight segment, in itinerary order, each with:
+   - flightNumber: Airline code + number (e.g., "AA 1234", "BA 456")
+   - date: Departure date of the segment, format EXACTLY as DD-MMM-YYYY (e.g., 25-Dec-2024)
+   - origin: City name and/or airport code of departure (e.g., "Lahore LHE")
+   - destination: City name and/or airport code of arrival (e.g., "Dubai DXB")
+   - departureTime: Local departure time as HH:MM, 24-hour clock (e.g., "09:45")
+   - arrivalDate: Local arrival date of the segment, format EXACTLY as DD-MMM-YYYY (later than date for overnight flights)
+   - arrivalTime: Local arrival time as HH:MM, 24-hour clock (e.g., "13:10")
+3. passengers: An array with one object per passenger listed, each with:
+   - name: Full name as printed (usually in format: LASTNAME/FIRSTNAME)
+   - ticketNumber: The e-ticket number (usually 13 digits, may start with airline code like "016-1234567890")
+   - seatNumber: The assigned seat (e.g., "12A"); if the passenger has a seat per segment, join them with ", " in segment order
+   - inflightMeal: Meal preference if shown (e.g., "Vegetarian", "Halal", "VGML", "HNML")
+   - segmentIndexes: 0-based indexes into segments of the flights this passenger takes; use [] if they take every segment
+
+HANDLING UNCLEAR DATA:
+- If passenger name has "/" separator, keep it as is
+- Include both city name and airport code if both are visible
+- Segment dates are travel dates, not the booking or issue date
+- Flight documents have NO date of birth - never report a travel date as a birth date
+- If text is unclear, make your best interpretation
+- DATE FORMAT MUST BE DD-MMM-YYYY with hyphens (e.g., 25-Dec-2024)
+- If a field is not visible or not applicable, use empty string ""
+- For fieldConfidence and fieldBoxes (described below): put entries for name, ticketNumber, seatNumber and inflightMeal inside each passenger object; put entries for bookingReference, flightNumber, departure, arrival, departureDate and arrivalDate at the top level
+
+Return ONLY a JSON object with these exact keys: bookingReference, segments, passengers. No additional text, explanations, or markdown.`,
+};
+
+// Used when the document type could not be determined up front
+export const FALLBACK_PROMPT = `You are an expert OCR system. Analyze this document and identify what type it is.
+
+STEPS:
+1. Determine if this is a PASSPORT, VISA, or FLIGHT TICKET
+2. Extract all relevant information based on document type
+3. Use the appropriate field names for the identified document type
+
+PASSPORT fields: name, passportNumber, dateOfBirth, nationality, passportIssueDate, expiryDate
+VISA fields: name, passportNumber, dateOfBirth, nationality, visaType, visaExpiryDate (the visa's own expiry - expiryDate is only for a passport's expiry)
+FLIGHT TICKET fields: name, flightNumber, bookingReference, ticketNumber, departure, arrival, transitStop, seatNumber, inflightMeal, departureDate, departureTime, arrivalDate, arrivalTime (never put travel dates in dateOfBirth)
+
+FORMATTING:
+- All dates MUST be in DD-MMM-YYYY format with hyphens (e.g., 15-Mar-1990, 20-Dec-2030)
+- All times MUST be in HH:MM 24-hour format (e.g., 09:45)
+- If a field is not found or unclear, use empty string ""
+- Be as accurate as possible with OCR
+
+Return ONLY a JSON object with available data. No additional text, explanations, or markdown.`;
+
+export const CLASSIFICATION_PROMPT = `You are a travel document classifier. Look at this image and decide which kind of document it is.
+
+DOCUMENT KINDS:
+- "passport": A passport data page (photo, personal details, usually a Machine Readable Zone of two lines of "<"-filled text at the bottom)
+- "visa": A visa sticker, stamp, e-visa or visa grant letter issued by a country for entry or transit
+- "flight": A flight ticket, e-ticket receipt, boarding pass, itinerary or booking/PNR confirmation
+- "unknown": Anything else, or an image too unclear to tell
+
+Return ONLY a JSON object with these exact keys:
+- documentType: one of "passport", "visa", "flight", "unknown"
+- confidence: number between 0 and 1
+- reason: short explanation, under 12 words
+No additional text, explanations, or markdown.`;
@@ -0,0 +1,211 @@
+// Where model requests go. The gateway provider talks to any OpenAI-compatible chat
+// completions endpoint; the mock provider answers from fixtures so the pipeline runs offline.
+
+import { sha256Hex } from "../_shared/extractionCache.ts";
+import type { DocumentKind } from "../_shared/extractionSchema.ts";
+import { RequestError } from "./errors.ts";
+import { findFixture, type MockFixture } from "./mockFixtures.ts";
+
+export interface ChatMessage {
+  role: "user" | "assistant";
+  content: string | Array<Record<string, unknown>>;
+}
+
+// What a request is for; lets a deployment route each document type to its own model
+export type ModelTask = DocumentKind | "unknown" | "classify";
+
+export interface ModelRequest {
+  task: ModelTask;
+  messages: ChatMessage[];
+  image: string; // base64 page image the conversation is about
+}
+
+export interface ModelReply {
+  content: string;
+  model: string; // the model that answered, which is the fallback when the primary gave up
+}
+
+export interface ExtractionProvider {
+  name: string;
+  complete: (request: ModelRequest) => Promise<ModelReply>;
+}
+
+const DEFAULT_ENDPOINT = "https://ai.gateway.lovable.dev/v1/chat/completions";
+const DEFAULT_MODEL = "google/gemini-2.5-flash";
+
+// Attempts per model for rate limits and server errors, and the longest wait between them
+const MAX_ATTEMPTS = 3;
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 20000;
+
+interface GatewayConfig {
+  endpoint: string;
+  apiKey: string;
+  models: Record<ModelTask, string>;
+  fallbackModel?: string; // tried once the primary model keeps failing with retryable errors
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Retry-After is either delay-seconds or an HTTP date
+const parseRetryAfter = (header: string | null): number | undefined => {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+// A rate limit that outlasts the retry budget is not waited for
+const isRetryable = (error: unknown): boolean => {
+  if (!(error instanceof RequestError)) return error instanceof TypeError; // fetch network failure
+  if (error.code === "RATE_LIMITED") return !(Number(error.details?.retryAfterSeconds) * 1000 > MAX_DELAY_MS);
+  return error.code === "UPSTREAM_ERROR" && Number(error.details?.upstreamStatus) >= 500;
+};
+
+const isRateLimited = (error: unknown): boolean => error instanceof RequestError && error.code === "RATE_LIMITED";
+
+// Rate limits move on to the fallback model however long the primary asks to wait
+const shouldFallBack = (error: unknown): boolean => isRetryable(error) || isRateLimited(error);
+
+const postCompletion = async (config: GatewayConfig, model: string, messages: ChatMessage[]): Promise<string> => {
+  const response = await fetch(config.endpoint, {
+    method: "POST",
+    headers: {
+      "Authorization": `Bearer ${config.apiKey}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      model,
+      messages,
+    }),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error("AI Gateway error:", response.status, model, errorText);
+
+    if (response.status === 429) {
+      const retryAfterMs = parseRetryAfter(response.headers.get("Retry-After"));
+      throw new RequestError("AI rate limit reached", 429, "RATE_LIMITED", {
+        retryAfterSeconds: retryAfterMs === undefined ? undefined : Math.ceil(retryAfterMs / 1000),
+      });
+    }
+    if (response.status === 402) {
+      throw new RequestError("AI credits exhausted", 402, "CREDITS_EXHAUSTED");
+    }
+    throw new RequestError(`AI Gateway error: ${response.status}`, 502, "UPSTREAM_ERROR", {
+      upstreamStatus: response.status,
+    });
+  }
+
+  const aiData = await response.json();
+  const content = aiData.choices?.[0]?.message?.content;
+
+  if (!content) {
+    throw new Error("No response from AI");
+  }
+
+  return content;
+};
+
+// Exponential backoff with jitter, unless the gateway said how long to wait
+const completeWithRetries = async (config: GatewayConfig, model: string, messages: ChatMessage[]): Promise<string> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await postCompletion(config, model, messages);
+    } catch (error) {
+      if (!isRetryable(error) || attempt >= MAX_ATTEMPTS) throw error;
+
+      const retryAfterSeconds = error instanceof RequestError ? Number(error.details?.retryAfterSeconds) : NaN;
+      const delay = Number.isFinite(retryAfterSeconds)
+        ? retryAfterSeconds * 1000
+        : BASE_DELAY_MS * 2 ** (attempt - 1) + Math.random() * 250;
+      console.warn(`Retrying ${model} in ${Math.round(delay)}ms (attempt ${attempt + 1} of ${MAX_ATTEMPTS})`);
+      await sleep(delay);
+    }
+  }
+};
+
+export const createGatewayProvider = (config: GatewayConfig): ExtractionProvider => ({
+  name: "gateway",
+  complete: async ({ task, messages }) => {
+    const model = config.models[task];
+    try {
+      return { content: await completeWithRetries(config, model, messages), model };
+    } catch (error) {
+      if (!config.fallbackModel || config.fallbackModel === model || !shouldFallBack(error)) throw error;
+      console.warn(`${model} kept failing, falling back to ${config.fallbackModel}`);
+      try {
+        return { content: await completeWithRetries(config, config.fallbackModel, messages), model: config.fallbackModel };
+      } catch (fallbackError) {
+        // The primary's Retry-After only reaches the caller when the fallback is out of reach too
+        throw isRateLimited(error) && shouldFallBack(fallbackError) ? error : fallbackError;
+      }
+    }
+  },
+});
+
+/**
+ * Deterministic provider keyed on the SHA-256 of the uploaded image bytes. Unknown
+ * images classify as "unknown" and fail extraction with MOCK_FIXTURE_NOT_FOUND.
+ */
+export const createMockProvider = (fixtures?: MockFixture[]): ExtractionProvider => ({
+  name: "mock",
+  complete: async ({ task, image }) => {
+    const sha256 = await sha256Hex(image);
+    const fixture = findFixture(sha256, fixtures);
+
+    if (task === "classify") {
+      return {
+        content: JSON.stringify(fixture
+          ? { documentType: fixture.documentType, confidence: 1, reason: `Mock fixture ${fixture.name}` }
+          : { documentType: "unknown", confidence: 0, reason: "No mock fixture for this image" }),
+        model: "mock",
+      };
+    }
+
+    if (!fixture) {
+      throw new RequestError("No mock fixture matches this image", 422, "MOCK_FIXTURE_NOT_FOUND", { sha256 });
+    }
+    return { content: JSON.stringify(fixture.response), model: "mock" };
+  },
+});
+
+/**
+ * Build the provider for this deployment from function secrets:
+ * - EXTRACTION_PROVIDER: "gateway" (default) or "mock"
+ * - EXTRACTION_ENDPOINT: chat completions URL, defaults to the Lovable AI gateway
+ * - EXTRACTION_API_KEY: falls back to LOVABLE_API_KEY
+ * - EXTRACTION_MODEL: default model; EXTRACTION_MODEL_PASSPORT, _VISA, _FLIGHT, _UNKNOWN
+ *   and _CLASSIFY override it per task
+ * - EXTRACTION_FALLBACK_MODEL: optional model to use when rate limits or server errors persist
+ */
+export const providerFromEnv = (env: (key: string) => string | undefined): ExtractionProvider => {
+  const kind = env("EXTRACTION_PROVIDER") || "gateway";
+  if (kind === "mock") return createMockProvider();
+  if (kind !== "gateway") {
+    throw new Error(`Unknown EXTRACTION_PROVIDER: ${kind}`);
+  }
+
+  const apiKey = env("EXTRACTION_API_KEY") || env("LOVABLE_API_KEY");
+  if (!apiKey) {
+    throw new Error("LOVABLE_API_KEY not configured");
+  }
+
+  const defaultModel = env("EXTRACTION_MODEL") || DEFAULT_MODEL;
+  const modelFor = (task: ModelTask) => env(`EXTRACTION_MODEL_${task.toUpperCase()}`) || defaultModel;
+
+  return createGatewayProvider({
+    endpoint: env("EXTRACTION_ENDPOINT") || DEFAULT_ENDPOINT,
+    apiKey,
+    models: {
+      passport: modelFor("passport"),
+      visa: modelFor("visa"),
+      flight: modelFor("flight"),
+      unknown: modelFor("unknown"),
+      classify: modelFor("classify"),
+    },
+    fallbackModel: env("EXTRACTION_FALLBACK_MODEL") || undefined,
+  });
+};
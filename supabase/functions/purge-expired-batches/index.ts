@@ -0,0 +1,89 @@
+// Deletes batches that have been idle for longer than their agency's retention period,
+// original uploads included, strips passenger data from audit events older than that
+// period, and deletes cached extractions older than the shortest retention period of any
+// agency. Meant to run on a schedule with the service role key.
+
+import { createClient } from "@supabase/supabase-js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const BUCKET = "batch-documents";
+
+const json = (body: unknown, status = 200) => new Response(JSON.stringify(body), {
+  status,
+  headers: { "Content-Type": "application/json" },
+});
+
+Deno.serve(async (req) => {
+  const url = Deno.env.get("SUPABASE_URL");
+  const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+  if (!url || !serviceRoleKey) {
+    return json({ error: "SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY not configured", code: "INTERNAL_ERROR" }, 500);
+  }
+  // Only the scheduler may trigger a purge
+  if (req.headers.get("Authorization") !== `Bearer ${serviceRoleKey}`) {
+    return json({ error: "Service role key required", code: "FORBIDDEN" }, 403);
+  }
+
+  const admin = createClient(url, serviceRoleKey, { auth: { persistSession: false } });
+
+  try {
+    const { data: organizations, error } = await admin
+      .from("organizations")
+      .select("id, retention_days")
+      .not("retention_days", "is", null);
+    if (error) throw error;
+
+    const purged: { organizationId: string; batchIds: string[] }[] = [];
+    let redactedAuditEvents = 0;
+    for (const organization of organizations) {
+      const cutoff = new Date(Date.now() - organization.retention_days * DAY_MS).toISOString();
+
+      // The events themselves are kept; only the names and values in them go
+      const { data: redacted, error: redactError } = await admin.rpc("redact_audit_events", { org: organization.id, cutoff });
+      if (redactError) throw redactError;
+      redactedAuditEvents += redacted ?? 0;
+
+      const { data: batches, error: batchError } = await admin
+        .from("batches")
+        .select("id")
+        .eq("organization_id", organization.id)
+        .lt("updated_at", cutoff);
+      if (batchError) throw batchError;
+      if (batches.length === 0) continue;
+
+      const batchIds = batches.map((b) => b.id);
+      const { data: documents, error: documentError } = await admin
+        .from("batch_documents")
+        .select("storage_path")
+        .in("batch_id", batchIds);
+      if (documentError) throw documentError;
+
+      // Files first: once the rows are gone nothing points at them any more
+      if (documents.length > 0) {
+        const { error: storageError } = await admin.storage.from(BUCKET).remove(documents.map((d) => d.storage_path));
+        if (storageError) throw storageError;
+      }
+      const { error: deleteError } = await admin.from("batches").delete().in("id", batchIds);
+      if (deleteError) throw deleteError;
+
+      purged.push({ organizationId: organization.id, batchIds });
+    }
+
+    // Cache rows hold passport data but no agency, so they go as soon as any agency's data would
+    let purgedCacheEntries = 0;
+    if (organizations.length > 0) {
+      const shortestDays = Math.min(...organizations.map((o) => o.retention_days));
+      const { count, error: cacheError } = await admin
+        .from("extraction_cache")
+        .delete({ count: "exact" })
+        .lt("created_at", new Date(Date.now() - shortestDays * DAY_MS).toISOString());
+      if (cacheError) throw cacheError;
+      purgedCacheEntries = count ?? 0;
+    }
+
+    return json({ purged, redactedAuditEvents, purgedCacheEntries });
+  } catch (error) {
+    console.error("Error in purge-expired-batches:", error);
+    return json({ error: error instanceof Error ? error.message : String(error), code: "INTERNAL_ERROR" }, 500);
+  }
+});
@@ -0,0 +1,13 @@
+-- Extraction results keyed by prompt version, document type and SHA-256 of the page image.
+-- Only the extract-document-data function reads and writes it, with the service role.
+create table public.extraction_cache (
+  cache_key text primary key,
+  document_type text not null,
+  prompt_version text not null,
+  records jsonb not null,
+  created_at timestamptz not null default now()
+);
+
+alter table public.extraction_cache enable row level security;
+
+create index extraction_cache_prompt_version_idx on public.extraction_cache (prompt_version);
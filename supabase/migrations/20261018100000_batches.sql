@@ -0,0 +1,86 @@
+-- Batches: one tour group or departure, with its uploaded documents, the raw page
+-- extractions the function returned, and the consolidated passenger rows.
+
+create table public.batches (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  archived boolean not null default false,
+  -- merge/split decisions, in the shape of ConsolidationDecisions
+  decisions jsonb not null default '{"mustLink": [], "cannotLink": []}'::jsonb,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table public.batch_documents (
+  id uuid primary key default gen_random_uuid(),
+  batch_id uuid not null references public.batches (id) on delete cascade,
+  position integer not null,
+  file_name text not null,
+  mime_type text not null,
+  size_bytes bigint not null,
+  last_modified bigint not null, -- File.lastModified, part of the id consolidation decisions refer to
+  storage_path text not null,
+  document_type text check (document_type in ('passport', 'visa', 'flight')),
+  detected_type text check (detected_type in ('passport', 'visa', 'flight')),
+  status text not null default 'queued' check (status in ('queued', 'processing', 'done', 'failed')),
+  error text,
+  created_at timestamptz not null default now()
+);
+
+create index batch_documents_batch_id_idx on public.batch_documents (batch_id, position);
+
+-- Records returned by extract-document-data for one page, before any consolidation
+create table public.extractions (
+  id uuid primary key default gen_random_uuid(),
+  document_id uuid not null references public.batch_documents (id) on delete cascade,
+  batch_id uuid not null references public.batches (id) on delete cascade,
+  page integer not null,
+  records jsonb not null,
+  prompt_version text not null,
+  created_at timestamptz not null default now(),
+  unique (document_id, page)
+);
+
+create index extractions_batch_id_idx on public.extractions (batch_id);
+
+-- Consolidated rows as last shown in the table, including manual edits and resolved conflicts
+create table public.passengers (
+  id uuid primary key default gen_random_uuid(),
+  batch_id uuid not null references public.batches (id) on delete cascade,
+  position integer not null,
+  data jsonb not null,
+  updated_at timestamptz not null default now()
+);
+
+create index passengers_batch_id_idx on public.passengers (batch_id, position);
+
+create function public.touch_batch() returns trigger
+language plpgsql as $$
+begin
+  update public.batches set updated_at = now() where id = coalesce(new.batch_id, old.batch_id);
+  return null;
+end;
+$$;
+
+create trigger batch_documents_touch_batch after insert or update or delete on public.batch_documents
+  for each row execute function public.touch_batch();
+create trigger passengers_touch_batch after insert or update or delete on public.passengers
+  for each row execute function public.touch_batch();
+
+alter table public.batches enable row level security;
+alter table public.batch_documents enable row level security;
+alter table public.extractions enable row level security;
+alter table public.passengers enable row level security;
+
+-- Passenger data is never open to the anon key. Until access is scoped to agencies these
+-- policies let any signed-in user in; they are meant to be replaced then.
+create policy "Open access to batches" on public.batches for all to authenticated using (true) with check (true);
+create policy "Open access to batch documents" on public.batch_documents for all to authenticated using (true) with check (true);
+create policy "Open access to extractions" on public.extractions for all to authenticated using (true) with check (true);
+create policy "Open access to passengers" on public.passengers for all to authenticated using (true) with check (true);
+
+-- Original uploads, stored as <batch id>/<document id>.<extension>
+insert into storage.buckets (id, name, public) values ('batch-documents', 'batch-documents', false);
+
+create policy "Open access to batch document files" on storage.objects for all to authenticated
+  using (bucket_id = 'batch-documents') with check (bucket_id = 'batch-documents');
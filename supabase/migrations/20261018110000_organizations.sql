@@ -0,0 +1,153 @@
+-- Agencies and their members. Every batch belongs to one organization, and only its
+-- members can see or change the batch, its documents, extractions, passengers and files.
+
+create table public.organizations (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  created_at timestamptz not null default now()
+);
+
+create table public.organization_members (
+  organization_id uuid not null references public.organizations (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  primary key (organization_id, user_id)
+);
+
+create index organization_members_user_id_idx on public.organization_members (user_id);
+
+-- Batches saved before sign-in existed have no organization and stay hidden from everyone
+alter table public.batches
+  add column organization_id uuid references public.organizations (id) on delete cascade,
+  add column created_by uuid references auth.users (id) on delete set null default auth.uid();
+
+create index batches_organization_id_idx on public.batches (organization_id);
+
+-- Security definer so policies on organization_members can use it without recursing
+create function public.is_org_member(org uuid) returns boolean
+language sql stable security definer set search_path = public as $$
+  select exists (
+    select 1 from public.organization_members
+    where organization_id = org and user_id = auth.uid()
+  );
+$$;
+
+create function public.can_access_batch(batch uuid) returns boolean
+language sql stable security definer set search_path = public as $$
+  select exists (
+    select 1 from public.batches b
+    where b.id = batch and public.is_org_member(b.organization_id)
+  );
+$$;
+
+-- Storage paths start with the batch id
+create function public.can_access_batch_path(path text) returns boolean
+language sql stable security definer set search_path = public as $$
+  select exists (
+    select 1 from public.batches b
+    where b.id::text = split_part(path, '/', 1) and public.is_org_member(b.organization_id)
+  );
+$$;
+
+-- Operators of the service. Sign-up is closed (see supabase/config.toml), and only they may
+-- start an agency, since every agency spends AI credits. Rows are added from the SQL editor;
+-- no policy exposes the table.
+create table public.platform_admins (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  created_at timestamptz not null default now()
+);
+
+alter table public.platform_admins enable row level security;
+
+create function public.is_platform_admin() returns boolean
+language sql stable security definer set search_path = public as $$
+  select exists (select 1 from public.platform_admins where user_id = auth.uid());
+$$;
+
+-- New organizations start with their creator as the only member
+create function public.create_organization(name text) returns public.organizations
+language plpgsql security definer set search_path = public as $$
+declare
+  created public.organizations;
+begin
+  if not public.is_platform_admin() then
+    raise exception 'Only platform admins can create an organization' using errcode = '42501';
+  end if;
+  insert into public.organizations (name) values (create_organization.name) returning * into created;
+  insert into public.organization_members (organization_id, user_id) values (created.id, auth.uid());
+  return created;
+end;
+$$;
+
+-- Members are added by the email they were invited with
+create function public.add_organization_member(org uuid, email text) returns void
+language plpgsql security definer set search_path = public as $$
+declare
+  member_id uuid;
+begin
+  if not public.is_org_member(org) then
+    raise exception 'Not a member of this organization';
+  end if;
+  select id into member_id from auth.users where lower(auth.users.email) = lower(add_organization_member.email);
+  if member_id is null then
+    raise exception 'No account uses %; invite them first', add_organization_member.email;
+  end if;
+  insert into public.organization_members (organization_id, user_id) values (org, member_id)
+    on conflict do nothing;
+end;
+$$;
+
+create function public.list_organization_members(org uuid)
+returns table (user_id uuid, email text, joined_at timestamptz)
+language sql stable security definer set search_path = public as $$
+  select m.user_id, u.email::text, m.created_at
+  from public.organization_members m
+  join auth.users u on u.id = m.user_id
+  where m.organization_id = org and public.is_org_member(org)
+  order by m.created_at;
+$$;
+
+alter table public.organizations enable row level security;
+alter table public.organization_members enable row level security;
+
+create policy "Members read their organizations" on public.organizations
+  for select to authenticated using (public.is_org_member(id));
+create policy "Members rename their organizations" on public.organizations
+  for update to authenticated using (public.is_org_member(id));
+
+create policy "Members see each other" on public.organization_members
+  for select to authenticated using (public.is_org_member(organization_id));
+create policy "Members remove members" on public.organization_members
+  for delete to authenticated using (public.is_org_member(organization_id));
+
+-- Replace the open policies from before sign-in existed
+drop policy "Open access to batches" on public.batches;
+drop policy "Open access to batch documents" on public.batch_documents;
+drop policy "Open access to extractions" on public.extractions;
+drop policy "Open access to passengers" on public.passengers;
+drop policy "Open access to batch document files" on storage.objects;
+
+create policy "Members manage their batches" on public.batches
+  for all to authenticated
+  using (public.is_org_member(organization_id))
+  with check (public.is_org_member(organization_id));
+
+create policy "Members manage batch documents" on public.batch_documents
+  for all to authenticated
+  using (public.can_access_batch(batch_id))
+  with check (public.can_access_batch(batch_id));
+
+create policy "Members manage extractions" on public.extractions
+  for all to authenticated
+  using (public.can_access_batch(batch_id))
+  with check (public.can_access_batch(batch_id));
+
+create policy "Members manage passengers" on public.passengers
+  for all to authenticated
+  using (public.can_access_batch(batch_id))
+  with check (public.can_access_batch(batch_id));
+
+create policy "Members manage batch document files" on storage.objects
+  for all to authenticated
+  using (bucket_id = 'batch-documents' and public.can_access_batch_path(name))
+  with check (bucket_id = 'batch-documents' and public.can_access_batch_path(name));
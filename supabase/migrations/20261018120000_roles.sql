@@ -0,0 +1,340 @@
+-- Roles within an agency. Agents upload and process documents, reviewers edit and
+-- approve passengers, admins do both and also manage members and agency settings.
+
+alter table public.organization_members
+  add column role text not null default 'agent' check (role in ('agent', 'reviewer', 'admin'));
+
+-- Until now every member could do everything; keep existing members able to run their agency
+update public.organization_members set role = 'admin';
+
+alter table public.organizations
+  add column retention_days integer check (retention_days > 0), -- null keeps batches until deleted
+  add column allow_provenance_export boolean not null default true;
+
+create function public.has_org_role(org uuid, roles text[]) returns boolean
+language sql stable security definer set search_path = public as $$
+  select exists (
+    select 1 from public.organization_members
+    where organization_id = org and user_id = auth.uid() and role = any (roles)
+  );
+$$;
+
+create function public.has_batch_role(batch uuid, roles text[]) returns boolean
+language sql stable security definer set search_path = public as $$
+  select exists (
+    select 1 from public.batches b
+    where b.id = batch and public.has_org_role(b.organization_id, roles)
+  );
+$$;
+
+create function public.has_batch_path_role(path text, roles text[]) returns boolean
+language sql stable security definer set search_path = public as $$
+  select exists (
+    select 1 from public.batches b
+    where b.id::text = split_part(path, '/', 1) and public.has_org_role(b.organization_id, roles)
+  );
+$$;
+
+-- Creators administer the agency they create
+create or replace function public.create_organization(name text) returns public.organizations
+language plpgsql security definer set search_path = public as $$
+declare
+  created public.organizations;
+begin
+  if not public.is_platform_admin() then
+    raise exception 'Only platform admins can create an organization' using errcode = '42501';
+  end if;
+  insert into public.organizations (name) values (create_organization.name) returning * into created;
+  insert into public.organization_members (organization_id, user_id, role) values (created.id, auth.uid(), 'admin');
+  return created;
+end;
+$$;
+
+drop function public.add_organization_member(uuid, text);
+
+create function public.add_organization_member(org uuid, email text, role text default 'agent') returns void
+language plpgsql security definer set search_path = public as $$
+declare
+  member_id uuid;
+begin
+  if not public.has_org_role(org, array['admin']) then
+    raise exception 'Only admins can add members' using errcode = '42501';
+  end if;
+  select id into member_id from auth.users where lower(auth.users.email) = lower(add_organization_member.email);
+  if member_id is null then
+    raise exception 'No account uses %; invite them first', add_organization_member.email;
+  end if;
+  insert into public.organization_members (organization_id, user_id, role)
+    values (org, member_id, add_organization_member.role)
+    on conflict (organization_id, user_id) do update set role = excluded.role;
+end;
+$$;
+
+create function public.set_member_role(org uuid, member uuid, role text) returns void
+language plpgsql security definer set search_path = public as $$
+begin
+  if not public.has_org_role(org, array['admin']) then
+    raise exception 'Only admins can change roles' using errcode = '42501';
+  end if;
+  if set_member_role.role <> 'admin' and not exists (
+    select 1 from public.organization_members
+    where organization_id = org and organization_members.role = 'admin' and user_id <> member
+  ) then
+    raise exception 'An agency needs at least one admin';
+  end if;
+  update public.organization_members set role = set_member_role.role
+    where organization_id = org and user_id = member;
+end;
+$$;
+
+drop function public.list_organization_members(uuid);
+
+create function public.list_organization_members(org uuid)
+returns table (user_id uuid, email text, role text, joined_at timestamptz)
+language sql stable security definer set search_path = public as $$
+  select m.user_id, u.email::text, m.role, m.created_at
+  from public.organization_members m
+  join auth.users u on u.id = m.user_id
+  where m.organization_id = org and public.is_org_member(org)
+  order by m.created_at;
+$$;
+
+-- Whether the extraction function reported this value for the field anywhere in the batch,
+-- going by the page records it stored with each document; clients cannot write those. The
+-- flight fields of a passenger with several tickets summarize their combined segments, so
+-- for those every part of a comma-separated value may come from a stored segment instead.
+create function public.is_extracted_value(batch uuid, field text, candidate text) returns boolean
+language sql stable security definer set search_path = public as $$
+  select exists (
+    select 1
+    from public.extractions e
+    cross join jsonb_array_elements(e.records) r
+    where e.batch_id = batch and r.value ->> field = candidate
+  ) or (
+    field in ('flightNumber', 'departure', 'arrival', 'transitStop', 'departureDate', 'departureTime', 'arrivalDate', 'arrivalTime')
+    and not exists (
+      select 1 from unnest(string_to_array(candidate, ', ')) part
+      where not exists (
+        select 1
+        from public.extractions e
+        cross join jsonb_array_elements(e.records) r
+        cross join jsonb_array_elements(case jsonb_typeof(r.value -> 'segments') when 'array' then r.value -> 'segments' else '[]'::jsonb end) s
+        cross join jsonb_each_text(s.value) v
+        where e.batch_id = batch and v.value = part
+      )
+    )
+  );
+$$;
+
+-- What a non-reviewer may save for one passenger: reviewers' edits and approvals exactly as
+-- saved, and otherwise only values the documents gave. old_row is the saved passenger sharing
+-- a document with new_row, if any.
+create function public.check_unreviewed_passenger(batch uuid, old_row jsonb, new_row jsonb) returns void
+language plpgsql stable security definer set search_path = public as $$
+declare
+  old_edits jsonb := coalesce(old_row -> 'editedFields', '[]'::jsonb);
+  new_edits jsonb := coalesce(new_row -> 'editedFields', '[]'::jsonb);
+  field text;
+begin
+  for field in select jsonb_array_elements_text(old_edits) loop
+    if not new_edits ? field or old_row -> field is distinct from new_row -> field then
+      raise exception 'Only reviewers can change reviewed passenger data (%)', field using errcode = '42501';
+    end if;
+  end loop;
+
+  for field in select jsonb_array_elements_text(new_edits) loop
+    if not old_edits ? field then
+      raise exception 'Only reviewers can edit passenger data (%)', field using errcode = '42501';
+    end if;
+  end loop;
+
+  foreach field in array array[
+    'name', 'passportNumber', 'dateOfBirth', 'nationality', 'passportIssueDate', 'expiryDate',
+    'visaType', 'visaExpiryDate', 'flightNumber', 'bookingReference', 'ticketNumber',
+    'departure', 'arrival', 'transitStop', 'departureDate', 'departureTime', 'arrivalDate',
+    'arrivalTime', 'seatNumber', 'inflightMeal'
+  ] loop
+    if not new_edits ? field
+      and coalesce(new_row ->> field, '') <> ''
+      and new_row -> field is distinct from old_row -> field
+      and not public.is_extracted_value(batch, field, new_row ->> field) then
+      raise exception 'Only reviewers can edit passenger data (%)', field using errcode = '42501';
+    end if;
+  end loop;
+
+  if jsonb_typeof(new_row -> 'approval') = 'object'
+    and (old_row is null or old_row -> 'approval' is distinct from new_row -> 'approval') then
+    raise exception 'Only reviewers can approve passengers' using errcode = '42501';
+  end if;
+end;
+$$;
+
+-- A non-reviewer's snapshot must keep every passenger a reviewer edited or approved, as long
+-- as any of its documents is still in the batch: one saved row has to hold all of those
+-- documents, with the review work unchanged. Document ids read <type>/<file name>/<size>/
+-- <last modified>, with #n added for one of several passengers in a file.
+create function public.check_reviewed_passengers_kept(batch uuid, passenger_rows jsonb) returns void
+language plpgsql stable security definer set search_path = public as $$
+declare
+  old_row jsonb;
+  new_row jsonb;
+  remaining jsonb;
+begin
+  for old_row in
+    select p.data from public.passengers p
+    where p.batch_id = batch
+      and (jsonb_array_length(coalesce(p.data -> 'editedFields', '[]'::jsonb)) > 0
+        or jsonb_typeof(p.data -> 'approval') = 'object')
+  loop
+    select coalesce(jsonb_agg(d.id), '[]'::jsonb) into remaining
+    from jsonb_array_elements_text(coalesce(old_row -> 'documentIds', '[]'::jsonb)) d (id)
+    where exists (
+      select 1 from public.batch_documents bd
+      where bd.batch_id = batch
+        and substr(regexp_replace(d.id, '#\d+$', ''), position('/' in d.id) + 1)
+          = bd.file_name || '/' || bd.size_bytes || '/' || bd.last_modified
+    );
+    continue when remaining = '[]'::jsonb;
+
+    select t.value into new_row
+    from jsonb_array_elements(passenger_rows) t
+    where coalesce(t.value -> 'documentIds', '[]'::jsonb) @> remaining
+    limit 1;
+    if new_row is null then
+      raise exception 'Only reviewers can remove or split reviewed passengers' using errcode = '42501';
+    end if;
+    perform public.check_unreviewed_passenger(batch, old_row, new_row);
+  end loop;
+end;
+$$;
+
+-- The helpers read any batch, so only save_passengers may call them
+revoke execute on function public.is_extracted_value(uuid, text, text) from public, anon, authenticated;
+revoke execute on function public.check_unreviewed_passenger(uuid, jsonb, jsonb) from public, anon, authenticated;
+revoke execute on function public.check_reviewed_passengers_kept(uuid, jsonb) from public, anon, authenticated;
+
+-- Passenger rows are saved as a snapshot of the whole table. Agents re-save it after
+-- processing, carrying reviewers' edits and approvals along, so rather than a plain
+-- policy each row a non-reviewer saves goes through check_unreviewed_passenger, and
+-- each reviewed row they would replace through check_reviewed_passengers_kept.
+create function public.save_passengers(batch uuid, passenger_rows jsonb) returns void
+language plpgsql security definer set search_path = public as $$
+declare
+  org uuid;
+  new_row jsonb;
+  old_row jsonb;
+begin
+  select organization_id into org from public.batches where id = batch;
+  if org is null or not public.is_org_member(org) then
+    raise exception 'Not a member of this batch''s agency' using errcode = '42501';
+  end if;
+
+  if not public.has_org_role(org, array['reviewer', 'admin']) then
+    for new_row in select value from jsonb_array_elements(passenger_rows) loop
+      select p.data into old_row
+      from public.passengers p
+      where p.batch_id = batch
+        and exists (
+          select 1 from jsonb_array_elements_text(coalesce(p.data -> 'documentIds', '[]'::jsonb)) d
+          where coalesce(new_row -> 'documentIds', '[]'::jsonb) ? d
+        )
+      limit 1;
+
+      perform public.check_unreviewed_passenger(batch, old_row, new_row);
+    end loop;
+    perform public.check_reviewed_passengers_kept(batch, passenger_rows);
+  end if;
+
+  delete from public.passengers where batch_id = batch;
+  insert into public.passengers (batch_id, position, data)
+    select batch, t.ordinality - 1, t.value
+    from jsonb_array_elements(passenger_rows) with ordinality as t (value, ordinality);
+end;
+$$;
+
+-- Merge and split decisions are review work
+create function public.guard_batch_decisions() returns trigger
+language plpgsql as $$
+begin
+  if new.decisions is distinct from old.decisions
+    and not public.has_org_role(old.organization_id, array['reviewer', 'admin']) then
+    raise exception 'Only reviewers can merge or split passengers' using errcode = '42501';
+  end if;
+  return new;
+end;
+$$;
+
+create trigger batches_guard_decisions before update on public.batches
+  for each row execute function public.guard_batch_decisions();
+
+-- Policies by role
+
+drop policy "Members rename their organizations" on public.organizations;
+create policy "Admins update their organizations" on public.organizations
+  for update to authenticated using (public.has_org_role(id, array['admin']));
+
+drop policy "Members remove members" on public.organization_members;
+create policy "Admins remove members" on public.organization_members
+  for delete to authenticated using (public.has_org_role(organization_id, array['admin']));
+
+-- Removing members goes through the API directly, so set_member_role's rule is kept here:
+-- the last admin stays, unless the agency itself is being deleted
+create function public.keep_last_admin() returns trigger
+language plpgsql security definer set search_path = public as $$
+begin
+  if old.role = 'admin'
+    and exists (select 1 from public.organizations where id = old.organization_id)
+    and not exists (
+      select 1 from public.organization_members
+      where organization_id = old.organization_id and role = 'admin' and user_id <> old.user_id
+    ) then
+    raise exception 'An agency needs at least one admin';
+  end if;
+  return old;
+end;
+$$;
+
+create trigger organization_members_keep_last_admin before delete on public.organization_members
+  for each row execute function public.keep_last_admin();
+
+drop policy "Members manage their batches" on public.batches;
+create policy "Members read batches" on public.batches
+  for select to authenticated using (public.is_org_member(organization_id));
+create policy "Agents create batches" on public.batches
+  for insert to authenticated with check (public.has_org_role(organization_id, array['agent', 'admin']));
+create policy "Members update batches" on public.batches
+  for update to authenticated
+  using (public.is_org_member(organization_id))
+  with check (public.is_org_member(organization_id));
+create policy "Admins delete batches" on public.batches
+  for delete to authenticated using (public.has_org_role(organization_id, array['admin']));
+
+drop policy "Members manage batch documents" on public.batch_documents;
+create policy "Members read batch documents" on public.batch_documents
+  for select to authenticated using (public.can_access_batch(batch_id));
+create policy "Agents manage batch documents" on public.batch_documents
+  for all to authenticated
+  using (public.has_batch_role(batch_id, array['agent', 'admin']))
+  with check (public.has_batch_role(batch_id, array['agent', 'admin']));
+
+-- Only the extraction function writes page records, with the service role, so they stay
+-- what the model returned
+drop policy "Members manage extractions" on public.extractions;
+create policy "Members read extractions" on public.extractions
+  for select to authenticated using (public.can_access_batch(batch_id));
+
+-- Passenger rows are only written through save_passengers
+drop policy "Members manage passengers" on public.passengers;
+create policy "Members read passengers" on public.passengers
+  for select to authenticated using (public.can_access_batch(batch_id));
+
+drop policy "Members manage batch document files" on storage.objects;
+create policy "Members read batch document files" on storage.objects
+  for select to authenticated
+  using (bucket_id = 'batch-documents' and public.can_access_batch_path(name));
+create policy "Agents upload batch document files" on storage.objects
+  for insert to authenticated
+  with check (bucket_id = 'batch-documents' and public.has_batch_path_role(name, array['agent', 'admin']));
+create policy "Agents delete batch document files" on storage.objects
+  for delete to authenticated
+  using (bucket_id = 'batch-documents' and public.has_batch_path_role(name, array['agent', 'admin']));
@@ -0,0 +1,240 @@
+-- Append-only record of who uploaded, extracted, viewed, changed or exported passenger data.
+-- Rows outlive the batches they mention, so batch_id is not a foreign key and the batch
+-- name is copied in when the event is written.
+create table public.audit_events (
+  id bigint generated always as identity primary key,
+  organization_id uuid not null references public.organizations (id),
+  batch_id uuid,
+  batch_name text,
+  user_id uuid not null default auth.uid(),
+  user_email text,
+  action text not null check (action in (
+    'batch_opened',
+    'document_uploaded',
+    'document_extracted',
+    'field_edited',
+    'passenger_approved',
+    'passengers_merged',
+    'passenger_split',
+    'csv_exported'
+  )),
+  passengers text, -- names of the passengers the event concerns, comma separated
+  details jsonb not null default '{}'::jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index audit_events_organization_created_idx on public.audit_events (organization_id, created_at desc);
+create index audit_events_batch_idx on public.audit_events (batch_id);
+create index audit_events_user_idx on public.audit_events (user_id);
+
+alter table public.audit_events enable row level security;
+
+-- Who and when come from the session, never from the client
+create function public.stamp_audit_event() returns trigger
+language plpgsql security definer set search_path = public as $$
+begin
+  new.user_id := auth.uid();
+  new.user_email := auth.jwt() ->> 'email';
+  new.created_at := now();
+  new.batch_name := (select name from public.batches where id = new.batch_id);
+  return new;
+end;
+$$;
+
+create trigger audit_events_stamp before insert on public.audit_events
+  for each row execute function public.stamp_audit_event();
+
+-- No policy allows changing events, and this stops the service role as well. The one
+-- change let through is redact_audit_events removing passenger data from an event.
+create function public.reject_audit_change() returns trigger
+language plpgsql as $$
+begin
+  if tg_op = 'UPDATE' and current_setting('audit.redacting', true) = 'on' then
+    if new.passengers is null
+      and new.details = (old.details - 'oldValue' - 'newValue') || '{"redacted": true}'::jsonb
+      and (new.id, new.organization_id, new.batch_id, new.batch_name, new.user_id, new.user_email, new.action, new.created_at)
+        is not distinct from (old.id, old.organization_id, old.batch_id, old.batch_name, old.user_id, old.user_email, old.action, old.created_at) then
+      return new;
+    end if;
+  end if;
+  raise exception 'Audit events cannot be changed or deleted' using errcode = '42501';
+end;
+$$;
+
+create trigger audit_events_append_only before update or delete on public.audit_events
+  for each row execute function public.reject_audit_change();
+create trigger audit_events_no_truncate before truncate on public.audit_events
+  for each statement execute function public.reject_audit_change();
+
+-- Passenger names and edited values are passenger data, so once an agency's retention
+-- period has passed purge-expired-batches strips them from its events; who did what to
+-- which batch and when stays. Returns the number of events redacted.
+create function public.redact_audit_events(org uuid, cutoff timestamptz) returns integer
+language plpgsql security definer set search_path = public as $$
+declare
+  redacted integer;
+begin
+  perform set_config('audit.redacting', 'on', true);
+  update public.audit_events
+    set passengers = null, details = (details - 'oldValue' - 'newValue') || '{"redacted": true}'::jsonb
+    where organization_id = org and created_at < cutoff
+      and (passengers is not null or details ?| array['oldValue', 'newValue']);
+  get diagnostics redacted = row_count;
+  perform set_config('audit.redacting', 'off', true);
+  return redacted;
+end;
+$$;
+
+revoke execute on function public.redact_audit_events(uuid, timestamptz) from public, anon, authenticated;
+grant execute on function public.redact_audit_events(uuid, timestamptz) to service_role;
+
+-- Uploads, edits, approvals, merges and splits are recorded below by the database as it
+-- writes them. Clients add only what happens in the browser, views and exports; the
+-- extraction function writes its extractions as the caller.
+create policy "Members record their own views, extractions and exports" on public.audit_events
+  for insert to authenticated
+  with check (
+    action in ('batch_opened', 'document_extracted', 'csv_exported')
+    and public.is_org_member(organization_id)
+    and (batch_id is null or public.can_access_batch(batch_id))
+  );
+create policy "Admins read the audit log" on public.audit_events
+  for select to authenticated using (public.has_org_role(organization_id, array['admin']));
+
+create function public.record_document_upload() returns trigger
+language plpgsql security definer set search_path = public as $$
+begin
+  insert into public.audit_events (organization_id, batch_id, action, details)
+    select b.organization_id, new.batch_id, 'document_uploaded',
+      jsonb_build_object('fileName', new.file_name, 'sizeBytes', new.size_bytes, 'mimeType', new.mime_type)
+    from public.batches b
+    where b.id = new.batch_id and b.organization_id is not null;
+  return null;
+end;
+$$;
+
+create trigger batch_documents_record_upload after insert on public.batch_documents
+  for each row execute function public.record_document_upload();
+
+-- Same checks as before, and every edited field whose value changed and every approval
+-- given or withdrawn goes into the audit trail, whoever calls this
+create or replace function public.save_passengers(batch uuid, passenger_rows jsonb) returns void
+language plpgsql security definer set search_path = public as $$
+declare
+  org uuid;
+  is_reviewer boolean;
+  new_row jsonb;
+  old_row jsonb;
+  field text;
+  from_conflict boolean;
+  approved boolean;
+begin
+  select organization_id into org from public.batches where id = batch;
+  if org is null or not public.is_org_member(org) then
+    raise exception 'Not a member of this batch''s agency' using errcode = '42501';
+  end if;
+  is_reviewer := public.has_org_role(org, array['reviewer', 'admin']);
+
+  for new_row in select value from jsonb_array_elements(passenger_rows) loop
+    select p.data into old_row
+    from public.passengers p
+    where p.batch_id = batch
+      and exists (
+        select 1 from jsonb_array_elements_text(coalesce(p.data -> 'documentIds', '[]'::jsonb)) d
+        where coalesce(new_row -> 'documentIds', '[]'::jsonb) ? d
+      )
+    limit 1;
+
+    if not is_reviewer then
+      perform public.check_unreviewed_passenger(batch, old_row, new_row);
+    end if;
+
+    for field in select jsonb_array_elements_text(coalesce(new_row -> 'editedFields', '[]'::jsonb)) loop
+      continue when old_row -> field is not distinct from new_row -> field;
+      from_conflict := exists (
+        select 1 from jsonb_array_elements(coalesce(old_row -> 'conflicts', '[]'::jsonb)) c
+        where c ->> 'field' = field
+      );
+      insert into public.audit_events (organization_id, batch_id, action, passengers, details)
+        values (org, batch, 'field_edited', nullif(new_row ->> 'name', ''), jsonb_strip_nulls(jsonb_build_object(
+          'field', field,
+          'oldValue', old_row ->> field,
+          'newValue', new_row ->> field,
+          'fromConflict', from_conflict,
+          'sourceFile', case when from_conflict then new_row -> 'provenance' -> field ->> 'fileName' end
+        )));
+    end loop;
+
+    approved := coalesce(jsonb_typeof(new_row -> 'approval') = 'object', false);
+    if approved <> coalesce(jsonb_typeof(old_row -> 'approval') = 'object', false) then
+      insert into public.audit_events (organization_id, batch_id, action, passengers, details)
+        values (org, batch, 'passenger_approved', nullif(new_row ->> 'name', ''), jsonb_build_object('approved', approved));
+    end if;
+  end loop;
+
+  if not is_reviewer then
+    perform public.check_reviewed_passengers_kept(batch, passenger_rows);
+  end if;
+
+  delete from public.passengers where batch_id = batch;
+  insert into public.passengers (batch_id, position, data)
+    select batch, t.ordinality - 1, t.value
+    from jsonb_array_elements(passenger_rows) with ordinality as t (value, ordinality);
+end;
+$$;
+
+-- A merge or split, with the passengers rows holding the documents as they stood before it
+create function public.record_decision(batch uuid, org uuid, event_action text, document_ids text[]) returns void
+language sql security definer set search_path = public as $$
+  insert into public.audit_events (organization_id, batch_id, action, passengers, details)
+    select org, batch, event_action, string_agg(distinct nullif(p.data ->> 'name', ''), ', '), jsonb_build_object(
+      'rowCount', case when event_action = 'passenger_split' then cardinality(document_ids) else count(p.*) end,
+      'documentIds', to_jsonb(document_ids)
+    )
+    from public.passengers p
+    where p.batch_id = batch
+      and exists (
+        select 1 from jsonb_array_elements_text(coalesce(p.data -> 'documentIds', '[]'::jsonb)) d (id)
+        where d.id = any (document_ids)
+      );
+$$;
+
+revoke execute on function public.record_decision(uuid, uuid, text, text[]) from public, anon, authenticated;
+
+-- Document ids of the pairs in `pairs` that are not in `previous`
+create function public.added_decision_ids(pairs jsonb, previous jsonb) returns text[]
+language sql immutable as $$
+  select array_agg(distinct ids.id)
+  from jsonb_array_elements(coalesce(pairs, '[]'::jsonb)) pair
+  cross join jsonb_array_elements_text(pair.value) ids (id)
+  where not coalesce(previous, '[]'::jsonb) @> jsonb_build_array(pair.value);
+$$;
+
+-- Merge and split decisions are review work, and recorded here rather than by the client
+create or replace function public.guard_batch_decisions() returns trigger
+language plpgsql security definer set search_path = public as $$
+declare
+  merged text[];
+  split text[];
+begin
+  if new.decisions is not distinct from old.decisions then
+    return new;
+  end if;
+  if not public.has_org_role(old.organization_id, array['reviewer', 'admin']) then
+    raise exception 'Only reviewers can merge or split passengers' using errcode = '42501';
+  end if;
+
+  merged := public.added_decision_ids(new.decisions -> 'mustLink', old.decisions -> 'mustLink');
+  split := public.added_decision_ids(new.decisions -> 'cannotLink', old.decisions -> 'cannotLink');
+  if merged is not null then
+    perform public.record_decision(new.id, new.organization_id, 'passengers_merged', merged);
+  end if;
+  if split is not null then
+    perform public.record_decision(new.id, new.organization_id, 'passenger_split', split);
+  end if;
+  return new;
+end;
+$$;
+
+-- The model that produced a cached answer, so a cache hit can still be attributed
+alter table public.extraction_cache add column model text;